@@ -3,6 +3,7 @@ import type { Metadata } from "next"
 import { DM_Sans, Space_Grotesk } from "next/font/google"
 import "./globals.css"
 import { TranslationOptionsProvider } from "@/lib/translation-options-context"
+import { UserDictionaryProvider } from "@/lib/user-dictionary-context"
 import { Toaster } from "@/components/ui/toaster"
 import "@/lib/firebase" // Initialize Firebase Analytics
 import { AnalyticsTracker } from "@/components/analytics-tracker"
@@ -35,8 +36,10 @@ export default function RootLayout({
       <body>
         <AnalyticsTracker>
           <TranslationOptionsProvider>
-            {children}
-            <Toaster />
+            <UserDictionaryProvider>
+              {children}
+              <Toaster />
+            </UserDictionaryProvider>
           </TranslationOptionsProvider>
         </AnalyticsTracker>
       </body>
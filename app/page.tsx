@@ -6,18 +6,21 @@ import { TextTranslator } from "@/components/text-translator"
 import { LanguageSelector } from "@/components/language-selector"
 import { TranslationSettings } from "@/components/translation-settings"
 import { RichTextEditor } from "@/components/rich-text-editor"
+import { UserDictionaryManager } from "@/components/user-dictionary-manager"
+import { LexiconBrowser } from "@/components/lexicon-browser"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
-import { Languages, FileText, Zap, Shield, Settings, Type } from "lucide-react"
+import { Languages, FileText, Zap, Shield, Settings, Type, BookOpen, Library } from "lucide-react"
 import { useTranslationOptions } from "@/lib/translation-options-context"
 import { trackFeatureUsageEvent } from "@/components/analytics-tracker"
+import type { TransliterationDirection } from "@/lib/transliteration-pipeline"
 
 export default function HomePage() {
-  const [direction, setDirection] = useState<"urdu-to-roman" | "roman-to-urdu">("urdu-to-roman")
+  const [direction, setDirection] = useState<TransliterationDirection>("urdu-to-roman")
   const [activeTab, setActiveTab] = useState("text")
   const { options, updateOptions, resetOptions } = useTranslationOptions()
 
@@ -78,7 +81,12 @@ export default function HomePage() {
           </div>
 
           {/* Language Direction Selector */}
-          <LanguageSelector direction={direction} onDirectionChange={setDirection} />
+          <LanguageSelector
+            direction={direction}
+            onDirectionChange={setDirection}
+            autoDetect={options.autoDetectDirection}
+            onAutoDetectChange={(autoDetectDirection) => updateOptions({ ...options, autoDetectDirection })}
+          />
 
           {/* Features */}
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
@@ -133,7 +141,7 @@ export default function HomePage() {
               </CardHeader>
               <CardContent>
                 <p className="text-xs sm:text-sm text-muted-foreground">
-                  Monitor completeness and configure quality thresholds and warnings
+                  Monitor confidence and completeness and configure quality thresholds and warnings
                 </p>
               </CardContent>
             </Card>
@@ -141,7 +149,7 @@ export default function HomePage() {
 
           {/* Main Interface */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-3 h-auto">
+            <TabsList className="grid w-full grid-cols-5 h-auto">
               <TabsTrigger
                 value="text"
                 className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-2 sm:py-1.5 text-xs sm:text-sm"
@@ -166,6 +174,22 @@ export default function HomePage() {
                 <span className="hidden xs:inline">Text Editor (Beta)</span>
                 <span className="xs:hidden">Editor (Beta)</span>
               </TabsTrigger>
+              <TabsTrigger
+                value="dictionary"
+                className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-2 sm:py-1.5 text-xs sm:text-sm"
+              >
+                <BookOpen className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="hidden xs:inline">My Dictionary</span>
+                <span className="xs:hidden">Dictionary</span>
+              </TabsTrigger>
+              <TabsTrigger
+                value="lexicon"
+                className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-2 sm:py-1.5 text-xs sm:text-sm"
+              >
+                <Library className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="hidden xs:inline">Lexicon</span>
+                <span className="xs:hidden">Lexicon</span>
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="text" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
@@ -173,12 +197,20 @@ export default function HomePage() {
             </TabsContent>
 
             <TabsContent value="files" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
-              <FileProcessor direction={direction} />
+              <FileProcessor direction={direction} onDirectionChange={setDirection} />
             </TabsContent>
 
             <TabsContent value="editor" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
               <RichTextEditor direction={direction} onDirectionChange={setDirection} />
             </TabsContent>
+
+            <TabsContent value="dictionary" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+              <UserDictionaryManager />
+            </TabsContent>
+
+            <TabsContent value="lexicon" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+              <LexiconBrowser />
+            </TabsContent>
           </Tabs>
         </div>
       </main>
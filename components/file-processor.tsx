@@ -2,38 +2,98 @@
 
 import type React from "react"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Upload, Download, FileText, AlertCircle, CheckCircle2, Loader2 } from "lucide-react"
-import type { TransliterationResult } from "@/lib/transliteration"
+import { Upload, Download, FileText, AlertCircle, CheckCircle2, Loader2, X } from "lucide-react"
+import type { TransliterationSummary } from "@/lib/transliteration"
 import { useTranslationOptions } from "@/lib/translation-options-context"
 import { enhancedTransliterationEngine } from "@/components/enhanced-transliteration-engine"
-import { validateFile, createDownloadBlob, parseFile } from "@/lib/file-utils"
+import {
+  TransliterationCancelledError,
+  DIRECTION_LABELS,
+  type TransliterationDirection,
+} from "@/lib/transliteration-pipeline"
+import { detectScript, contradictedDirection, SCRIPT_LABELS, type DetectedScript } from "@/lib/script-detection"
+import { validateFile, createDownloadBlob, parseFile, isStreamedFile } from "@/lib/file-utils"
 
 interface ProcessedFile {
   id: string
   name: string
-  originalContent: string
-  processedContent: string
-  transliterationResult: TransliterationResult
+  output: Blob
+  summary: TransliterationSummary
+  // The direction the file was transliterated in, and the one its script called for when that differed
+  direction: TransliterationDirection
+  detectedScript?: DetectedScript
+  contradictedDirection?: TransliterationDirection | null
   size: number
   status: "processing" | "completed" | "error"
   error?: string
   fileType: string
 }
 
-export function FileProcessor({ direction }: FileProcessorProps) {
+// Bytes read from the start of a streamed file to detect its script
+const DETECTION_SAMPLE_SIZE = 16 * 1024
+
+export function FileProcessor({ direction, onDirectionChange }: FileProcessorProps) {
   const [files, setFiles] = useState<ProcessedFile[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
   const [progress, setProgress] = useState(0)
   const { options } = useTranslationOptions()
+  // Aborted by the Cancel button; a new controller is made for each upload
+  const abortController = useRef<AbortController | null>(null)
+
+  // Plain text is streamed through the worker, so its size is not bound by memory; PDF and DOCX are parsed whole
+  const processFile = async (
+    file: File,
+    onProgress: (progress: number) => void,
+    signal: AbortSignal,
+  ): Promise<Pick<ProcessedFile, "output" | "summary" | "direction" | "detectedScript" | "contradictedDirection">> => {
+    const streamed = isStreamedFile(file)
+    const content = streamed ? null : await readFileContent(file)
+
+    // In auto mode each file goes in the direction its own script calls for; otherwise a mismatch is reported
+    const detection = detectScript(content ?? (await file.slice(0, DETECTION_SAMPLE_SIZE).text()))
+    const contradicted = contradictedDirection(detection, direction)
+    const fileDirection = options.autoDetectDirection && contradicted ? contradicted : direction
+    const detected = {
+      direction: fileDirection,
+      detectedScript: detection.script,
+      contradictedDirection: options.autoDetectDirection ? null : contradicted,
+    }
 
-  const processText = async (text: string): Promise<TransliterationResult> => {
-    return await enhancedTransliterationEngine.transliterateWithOptions(text, direction, options)
+    if (content === null) {
+      let output = new Blob([])
+      let pending: string[] = []
+
+      const summary = await enhancedTransliterationEngine.transliterateFileWithOptions(file, fileDirection, options, {
+        onProgress,
+        signal,
+        onChunk: (text) => {
+          pending.push(text)
+          // Folded into the blob every so often rather than kept as thousands of strings
+          if (pending.length >= 256) {
+            output = new Blob([output, ...pending])
+            pending = []
+          }
+        },
+      })
+      return { output: new Blob([output, ...pending]), summary, ...detected }
+    }
+
+    const result = await enhancedTransliterationEngine.transliterateWithOptions(content, fileDirection, options, {
+      onProgress,
+      signal,
+    })
+    const { method, confidence, completeness } = result
+    return {
+      output: new Blob([result.transliteratedText]),
+      summary: { method, confidence, completeness },
+      ...detected,
+    }
   }
 
   const readFileContent = async (file: File): Promise<string> => {
@@ -49,14 +109,18 @@ export function FileProcessor({ direction }: FileProcessorProps) {
       setIsProcessing(true)
       setProgress(0)
 
+      const controller = new AbortController()
+      abortController.current = controller
+
       const fileArray = Array.from(selectedFiles)
       const newFiles: ProcessedFile[] = []
 
       for (let i = 0; i < fileArray.length; i += options.batchSize) {
         const batch = fileArray.slice(i, i + options.batchSize)
 
-        for (const file of batch) {
+        for (const [offset, file] of batch.entries()) {
           const fileId = `${Date.now()}-${Math.random()}`
+          const fileIndex = i + offset
 
           try {
             const validation = validateFile(file)
@@ -64,23 +128,26 @@ export function FileProcessor({ direction }: FileProcessorProps) {
               throw new Error(validation.error)
             }
 
+            if (controller.signal.aborted) {
+              throw new TransliterationCancelledError()
+            }
+
             // Update progress if enabled
             if (options.progressUpdates) {
-              setProgress((i / fileArray.length) * 100)
+              setProgress((fileIndex / fileArray.length) * 100)
             }
 
-            // Read file content using new parser
-            const content = await readFileContent(file)
-
             // Process content through enhanced transliteration engine
-            const result = await processText(content)
+            const processed = await processFile(
+              file,
+              (fileProgress) => setProgress(((fileIndex + fileProgress / 100) / fileArray.length) * 100),
+              controller.signal,
+            )
 
             const processedFile: ProcessedFile = {
               id: fileId,
               name: file.name,
-              originalContent: content,
-              processedContent: result.transliteratedText,
-              transliterationResult: result,
+              ...processed,
               size: file.size,
               status: "completed",
               fileType: "." + file.name.split(".").pop()?.toLowerCase() || ".txt",
@@ -96,12 +163,11 @@ export function FileProcessor({ direction }: FileProcessorProps) {
             const errorFile: ProcessedFile = {
               id: fileId,
               name: file.name,
-              originalContent: "",
-              processedContent: "",
-              transliterationResult: {
-                originalText: "",
-                transliteratedText: "",
+              output: new Blob([]),
+              direction,
+              summary: {
                 method: "rule-based",
+                confidence: 0,
                 completeness: {
                   isComplete: false,
                   untransliteratedParts: [],
@@ -111,7 +177,12 @@ export function FileProcessor({ direction }: FileProcessorProps) {
               },
               size: file.size,
               status: "error",
-              error: error instanceof Error ? error.message : "Unknown error",
+              error:
+                error instanceof TransliterationCancelledError
+                  ? "Cancelled"
+                  : error instanceof Error
+                    ? error.message
+                    : "Unknown error",
               fileType: "." + file.name.split(".").pop()?.toLowerCase() || ".txt",
             }
 
@@ -120,6 +191,7 @@ export function FileProcessor({ direction }: FileProcessorProps) {
         }
       }
 
+      abortController.current = null
       setProgress(100)
       setFiles((prev) => [...prev, ...newFiles])
       setIsProcessing(false)
@@ -130,6 +202,10 @@ export function FileProcessor({ direction }: FileProcessorProps) {
     [direction, options],
   )
 
+  const cancelProcessing = () => {
+    abortController.current?.abort()
+  }
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = event.target.files
     if (selectedFiles && selectedFiles.length > 0) {
@@ -139,7 +215,7 @@ export function FileProcessor({ direction }: FileProcessorProps) {
 
   const downloadFile = (file: ProcessedFile) => {
     const fileType = file.fileType === ".pdf" ? "pdf" : file.fileType === ".docx" ? "docx" : "txt"
-    createDownloadBlob(file.processedContent, file.name, fileType)
+    createDownloadBlob(file.output, file.name, fileType)
   }
 
   const downloadAllFiles = () => {
@@ -163,6 +239,11 @@ export function FileProcessor({ direction }: FileProcessorProps) {
     return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
   }
 
+  const getConfidenceBadgeColor = (confidence: number) =>
+    Math.round(confidence * 100) >= options.qualityThreshold
+      ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+      : "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200"
+
   const getMethodBadgeColor = (method: string) => {
     switch (method) {
       case "lexicon":
@@ -186,8 +267,7 @@ export function FileProcessor({ direction }: FileProcessorProps) {
             Upload Files for Processing
           </CardTitle>
           <CardDescription>
-            Upload text files (.txt, .md, .csv) to transliterate from{" "}
-            {direction === "urdu-to-roman" ? "Urdu to Roman" : "Roman to Urdu"}
+            Upload text files (.txt, .md, .csv) to transliterate {DIRECTION_LABELS[direction]}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -202,7 +282,9 @@ export function FileProcessor({ direction }: FileProcessorProps) {
                   <p className="mb-2 text-sm text-muted-foreground">
                     <span className="font-semibold">Click to upload</span> or drag and drop
                   </p>
-                  <p className="text-xs text-muted-foreground">TXT, MD, CSV, PDF, DOCX files (MAX. 10MB each)</p>
+                  <p className="text-xs text-muted-foreground">
+                    TXT, MD, CSV (MAX. 1GB each), PDF, DOCX (MAX. 10MB each)
+                  </p>
                 </div>
                 <input
                   id="file-upload"
@@ -218,9 +300,15 @@ export function FileProcessor({ direction }: FileProcessorProps) {
 
             {isProcessing && (
               <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  <span className="text-sm">Processing files...</span>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span className="text-sm">Processing files...</span>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={cancelProcessing}>
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
                 </div>
                 <Progress value={progress} className="w-full" />
               </div>
@@ -273,9 +361,11 @@ export function FileProcessor({ direction }: FileProcessorProps) {
                     <div className="flex items-center gap-2">
                       {file.status === "completed" && (
                         <>
-                          <Badge className={getMethodBadgeColor(file.transliterationResult.method)}>
-                            {file.transliterationResult.method}
+                          <Badge className={getConfidenceBadgeColor(file.summary.confidence)}>
+                            {Math.round(file.summary.confidence * 100)}% confidence
                           </Badge>
+                          <Badge className={getMethodBadgeColor(file.summary.method)}>{file.summary.method}</Badge>
+                          <Badge variant="outline">{DIRECTION_LABELS[file.direction]}</Badge>
                           <CheckCircle2 className="h-4 w-4 text-green-600" />
                           <Button size="sm" variant="outline" onClick={() => downloadFile(file)}>
                             <Download className="h-4 w-4 mr-2" />
@@ -291,17 +381,17 @@ export function FileProcessor({ direction }: FileProcessorProps) {
                   {file.status === "completed" && (
                     <div className="space-y-2">
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                        <span>Words: {file.transliterationResult.completeness.totalWords}</span>
+                        <span>Words: {file.summary.completeness.totalWords}</span>
                         <span>
                           Completeness:{" "}
-                          {file.transliterationResult.completeness.isComplete ? (
+                          {file.summary.completeness.isComplete ? (
                             <span className="text-green-600">100%</span>
                           ) : (
                             <span className="text-orange-600">
                               {Math.round(
-                                ((file.transliterationResult.completeness.totalWords -
-                                  file.transliterationResult.completeness.untransliteratedCount) /
-                                  file.transliterationResult.completeness.totalWords) *
+                                ((file.summary.completeness.totalWords -
+                                  file.summary.completeness.untransliteratedCount) /
+                                  file.summary.completeness.totalWords) *
                                   100,
                               )}
                               %
@@ -309,12 +399,41 @@ export function FileProcessor({ direction }: FileProcessorProps) {
                           )}
                         </span>
                       </div>
-                      {!file.transliterationResult.completeness.isComplete && (
+                      {file.contradictedDirection && file.detectedScript && (
+                        <Alert>
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                            <span>
+                              This file looks like {SCRIPT_LABELS[file.detectedScript]}, but it was processed{" "}
+                              {DIRECTION_LABELS[file.direction]}
+                            </span>
+                            {onDirectionChange && direction !== file.contradictedDirection && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => onDirectionChange(file.contradictedDirection!)}
+                              >
+                                Switch to {DIRECTION_LABELS[file.contradictedDirection]}
+                              </Button>
+                            )}
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                      {Math.round(file.summary.confidence * 100) < options.qualityThreshold && (
+                        <Alert>
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertDescription>
+                            Confidence is below the {options.qualityThreshold}% quality threshold; review the rule-based
+                            words before using this file
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                      {!file.summary.completeness.isComplete && (
                         <Alert>
                           <AlertCircle className="h-4 w-4" />
                           <AlertDescription>
-                            {file.transliterationResult.completeness.untransliteratedCount} words could not be
-                            transliterated completely
+                            {file.summary.completeness.untransliteratedCount} words could not be transliterated
+                            completely
                           </AlertDescription>
                         </Alert>
                       )}
@@ -338,5 +457,6 @@ export function FileProcessor({ direction }: FileProcessorProps) {
 }
 
 interface FileProcessorProps {
-  direction: "urdu-to-roman" | "roman-to-urdu"
+  direction: TransliterationDirection
+  onDirectionChange?: (direction: TransliterationDirection) => void
 }
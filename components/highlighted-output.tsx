@@ -0,0 +1,168 @@
+"use client"
+
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Check, Pencil } from "lucide-react"
+import type { TokenSource, TransliterationResult } from "@/lib/transliteration"
+import type { LanguageDecision, LanguageEvidence } from "@/lib/language-id"
+
+interface HighlightedOutputProps {
+  result: TransliterationResult
+  dir?: "ltr" | "rtl"
+  onSelectAlternative?: (tokenIndex: number, alternative: string) => void
+  // Opens a correction editor for the token; every word becomes clickable when set
+  onCorrectToken?: (tokenIndex: number) => void
+}
+
+export const TOKEN_SOURCE_LABELS: Record<TokenSource, string> = {
+  "user-dictionary": "Your dictionary",
+  "phrase-lexicon": "Phrase lexicon",
+  "word-lexicon": "Word lexicon",
+  "fuzzy-lexicon": "Spelling variant",
+  "loanword-lexicon": "English loanword",
+  "rule-based": "Rule-based",
+  english: "Kept in English",
+  number: "Number",
+  punctuation: "Punctuation",
+  untransliterated: "Not transliterated",
+}
+
+const LANGUAGE_EVIDENCE_LABELS: Record<LanguageEvidence, string> = {
+  "roman-urdu-word": "common Roman Urdu word",
+  "english-word": "common English word",
+  loanword: "known loanword",
+  "roman-lexicon": "in the lexicon",
+  "character-ngrams": "spelling",
+  context: "surrounding words",
+}
+
+function describeLanguage({ language, evidence, confidence }: LanguageDecision): string {
+  const name = language === "english" ? "English" : "Roman Urdu"
+  return `${name} by ${LANGUAGE_EVIDENCE_LABELS[evidence]} (${Math.round(confidence * 100)}%)`
+}
+
+export function getTokenHighlightClass(method: TokenSource) {
+  switch (method) {
+    case "rule-based":
+      return "bg-blue-100 text-blue-900 dark:bg-blue-900/60 dark:text-blue-100"
+    case "fuzzy-lexicon":
+      return "bg-amber-100 text-amber-900 dark:bg-amber-900/60 dark:text-amber-100"
+    case "english":
+      return "bg-emerald-100 text-emerald-900 dark:bg-emerald-900/60 dark:text-emerald-100"
+    case "untransliterated":
+      return "bg-red-100 text-red-900 dark:bg-red-900/60 dark:text-red-100"
+    default:
+      return ""
+  }
+}
+
+export function HighlightedOutput({
+  result,
+  dir = "ltr",
+  onSelectAlternative,
+  onCorrectToken,
+}: HighlightedOutputProps) {
+  return (
+    <TooltipProvider>
+      <div className="min-h-16 rounded-md border bg-muted/50 px-3 py-2 text-sm leading-7" dir={dir}>
+        {result.tokens.map((token, index) => {
+          const hasAlternatives = !!onSelectAlternative && token.alternatives.length > 1
+          const correctable = !!onCorrectToken && token.method !== "punctuation"
+
+          return (
+            <span key={`${token.source.start}-${index}`}>
+              {index > 0 && " "}
+              {hasAlternatives || correctable ? (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button
+                      type="button"
+                      className={`rounded px-0.5 hover:bg-muted ${hasAlternatives ? "underline decoration-dotted underline-offset-4" : ""} ${getTokenHighlightClass(token.method)}`}
+                    >
+                      {token.outputText}
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-56 p-2" dir="ltr">
+                    <p className="px-2 pb-2 text-xs text-muted-foreground">
+                      {TOKEN_SOURCE_LABELS[token.method]}: <span dir={dir}>{token.sourceText}</span>
+                      {token.fuzzyMatch &&
+                        ` → ${token.fuzzyMatch.key} (${Math.round(token.fuzzyMatch.confidence * 100)}%)`}
+                    </p>
+                    {token.language && (
+                      <p className="px-2 pb-2 text-xs text-muted-foreground">{describeLanguage(token.language)}</p>
+                    )}
+                    <div className="flex flex-col gap-1">
+                      {hasAlternatives &&
+                        token.alternatives.map((alternative) => (
+                          <button
+                            key={alternative}
+                            type="button"
+                            onClick={() => onSelectAlternative?.(index, alternative)}
+                            className="flex items-center justify-between rounded px-2 py-1 text-left text-sm hover:bg-muted"
+                            dir={dir}
+                          >
+                            {alternative}
+                            {alternative === token.outputText && <Check className="h-3 w-3" />}
+                          </button>
+                        ))}
+                      {correctable && (
+                        <button
+                          type="button"
+                          onClick={() => onCorrectToken?.(index)}
+                          className="flex items-center gap-2 rounded border-t px-2 py-1 text-left text-sm hover:bg-muted"
+                        >
+                          <Pencil className="h-3 w-3" />
+                          Correct this word...
+                        </button>
+                      )}
+                    </div>
+                  </PopoverContent>
+                </Popover>
+              ) : (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span className={`rounded px-0.5 ${getTokenHighlightClass(token.method)}`}>{token.outputText}</span>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>
+                      {TOKEN_SOURCE_LABELS[token.method]}: {token.sourceText}
+                    </p>
+                    <p className="text-xs opacity-80">
+                      Looked up as: {token.normalized}
+                      {token.fuzzyMatch && ` (${Math.round(token.fuzzyMatch.confidence * 100)}% match)`}
+                    </p>
+                    {token.language && <p className="text-xs opacity-80">{describeLanguage(token.language)}</p>}
+                  </TooltipContent>
+                </Tooltip>
+              )}
+            </span>
+          )
+        })}
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className={`h-3 w-3 rounded ${getTokenHighlightClass("rule-based")}`} />
+          Rule-based (double-check)
+        </span>
+        <span className="flex items-center gap-1">
+          <span className={`h-3 w-3 rounded ${getTokenHighlightClass("fuzzy-lexicon")}`} />
+          Spelling variant
+        </span>
+        {result.tokens.some((token) => token.method === "english") && (
+          <span className="flex items-center gap-1">
+            <span className={`h-3 w-3 rounded ${getTokenHighlightClass("english")}`} />
+            Kept in English
+          </span>
+        )}
+        <span className="flex items-center gap-1">
+          <span className={`h-3 w-3 rounded ${getTokenHighlightClass("untransliterated")}`} />
+          Not transliterated
+        </span>
+        {onSelectAlternative && (
+          <span className="underline decoration-dotted underline-offset-4">Dotted words have other spellings</span>
+        )}
+        {onCorrectToken && <span>Click a word to correct it</span>}
+      </div>
+    </TooltipProvider>
+  )
+}
@@ -3,16 +3,29 @@
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Languages, ArrowRight } from "lucide-react"
 import { trackFeatureUsageEvent } from "@/components/analytics-tracker"
+import { DIRECTION_LABELS, SWAPPED_DIRECTIONS, type TransliterationDirection } from "@/lib/transliteration-pipeline"
 
 interface LanguageSelectorProps {
-  direction: "urdu-to-roman" | "roman-to-urdu"
-  onDirectionChange: (direction: "urdu-to-roman" | "roman-to-urdu") => void
+  direction: TransliterationDirection
+  onDirectionChange: (direction: TransliterationDirection) => void
   className?: string
+  // Auto mode: the translators switch direction to match the script of the input
+  autoDetect?: boolean
+  onAutoDetectChange?: (autoDetect: boolean) => void
 }
 
-export function LanguageSelector({ direction, onDirectionChange, className }: LanguageSelectorProps) {
+export function LanguageSelector({
+  direction,
+  onDirectionChange,
+  className,
+  autoDetect,
+  onAutoDetectChange,
+}: LanguageSelectorProps) {
   const languages = {
     "urdu-to-roman": {
       from: { name: "Urdu", code: "UR", script: "اردو" },
@@ -22,6 +35,10 @@ export function LanguageSelector({ direction, onDirectionChange, className }: La
       from: { name: "Roman", code: "EN", script: "Roman" },
       to: { name: "Urdu", code: "UR", script: "اردو" },
     },
+    "english-to-urdu": {
+      from: { name: "English", code: "EN", script: "English" },
+      to: { name: "Urdu", code: "UR", script: "اردو" },
+    },
   }
 
   const current = languages[direction]
@@ -63,13 +80,38 @@ export function LanguageSelector({ direction, onDirectionChange, className }: La
               </div>
             </div>
 
-            <div className="flex justify-center md:justify-start md:ml-4">
+            <div className="flex items-center justify-center gap-4 md:justify-start md:ml-4">
+              <Select
+                value={direction}
+                onValueChange={(value: TransliterationDirection) => {
+                  onDirectionChange(value)
+                  trackFeatureUsageEvent("direction_select")
+                }}
+              >
+                <SelectTrigger className="h-9 w-40" aria-label="Translation direction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DIRECTION_LABELS) as TransliterationDirection[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {DIRECTION_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {onAutoDetectChange && (
+                <div className="flex items-center gap-2">
+                  <Switch id="auto-detect-direction" checked={autoDetect} onCheckedChange={onAutoDetectChange} />
+                  <Label htmlFor="auto-detect-direction" className="text-sm">
+                    Auto
+                  </Label>
+                </div>
+              )}
               <Button
                 variant="outline"
                 size="sm"
                 onClick={() => {
-                  const newDirection = direction === "urdu-to-roman" ? "roman-to-urdu" : "urdu-to-roman"
-                  onDirectionChange(newDirection)
+                  onDirectionChange(SWAPPED_DIRECTIONS[direction])
                   trackFeatureUsageEvent('direction_swap')
                 }}
               >
@@ -0,0 +1,346 @@
+"use client"
+
+import { useEffect, useMemo, useState, type ReactNode } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Library, Loader2, RotateCcw } from "lucide-react"
+import { transliterationEngine } from "@/lib/transliteration"
+import { transliterationClient } from "@/lib/transliteration-client"
+import { useUserDictionary } from "@/lib/user-dictionary-context"
+import { useTranslationOptions } from "@/lib/translation-options-context"
+import {
+  analyzeLexicon,
+  diffUserDictionary,
+  lexiconInitials,
+  searchLexicon,
+  type LexiconKeyGroup,
+  type LexiconProblem,
+  type LexiconReport,
+  type UserDictionaryDiffStatus,
+} from "@/lib/lexicon-analysis"
+
+// Long lists are cut off; search narrows them down
+const MAX_ROWS = 100
+
+const PROBLEM_LABELS: Record<LexiconProblem, string> = {
+  "missing-urdu": "No Urdu",
+  "missing-roman": "No Roman",
+  "latin-in-urdu": "Latin in Urdu",
+  "urdu-in-roman": "Urdu in Roman",
+  "invalid-weight": "Invalid weight",
+}
+
+const DIFF_LABELS: Record<UserDictionaryDiffStatus, string> = {
+  added: "New word",
+  overrides: "Overrides lexicon",
+  same: "Same as lexicon",
+}
+
+const toKey = (text: string, script: "urdu" | "roman") => transliterationEngine.toLexiconKey(text, script)
+const toOutput = (roman: string, preserveCase?: boolean) => transliterationEngine.toLexiconOutput(roman, preserveCase)
+
+function Truncated({ total, children }: { total: number; children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      {children}
+      {total > MAX_ROWS && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {MAX_ROWS} of {total}
+        </p>
+      )}
+    </div>
+  )
+}
+
+function KeyGroupTable({ groups, script }: { groups: LexiconKeyGroup[]; script: "urdu" | "roman" }) {
+  const keyDir = script === "urdu" ? "rtl" : "ltr"
+  const spellingDir = script === "urdu" ? "ltr" : "rtl"
+
+  return (
+    <Truncated total={groups.length}>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{script === "urdu" ? "Urdu" : "Roman Urdu"}</TableHead>
+            <TableHead>Spellings (first is used)</TableHead>
+            <TableHead>Entries</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.slice(0, MAX_ROWS).map((group) => (
+            <TableRow key={group.key}>
+              <TableCell dir={keyDir}>{group.key}</TableCell>
+              <TableCell dir={spellingDir}>{group.spellings.join("، ")}</TableCell>
+              <TableCell className="text-xs text-muted-foreground">
+                {group.entries.map((entry) => `#${entry.index + 1}`).join(", ")}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Truncated>
+  )
+}
+
+export function LexiconBrowser() {
+  const { entries: userEntries } = useUserDictionary()
+  const { options } = useTranslationOptions()
+  const [report, setReport] = useState<LexiconReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [query, setQuery] = useState("")
+  const [letterScript, setLetterScript] = useState<"urdu" | "roman">("urdu")
+  const [letter, setLetter] = useState<string | null>(null)
+
+  const showLexicon = (retry: boolean) => {
+    setReport(null)
+    setError(null)
+    transliterationClient
+      .lexiconEntries(options.lexiconPacks, retry)
+      .then((data) => setReport(analyzeLexicon(data, toKey, toOutput)))
+      .catch((err) => setError(err instanceof Error ? err.message : "The lexicon could not be loaded"))
+  }
+
+  useEffect(() => {
+    showLexicon(false)
+  }, [options.lexiconPacks])
+
+  const initials = useMemo(() => (report ? lexiconInitials(report.entries, letterScript) : []), [report, letterScript])
+
+  const matches = useMemo(() => {
+    if (!report) return []
+    const found = searchLexicon(report.entries, query, toKey)
+    if (!letter) return found
+    return found.filter((entry) => (letterScript === "urdu" ? entry.urduKey : entry.romanKey).startsWith(letter))
+  }, [report, query, letter, letterScript])
+
+  const diff = useMemo(() => (report ? diffUserDictionary(userEntries, report, toKey) : []), [report, userEntries])
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-between gap-4 py-6 text-sm text-destructive">
+          Failed to load the lexicon: {error}
+          <Button variant="outline" size="sm" onClick={() => showLexicon(true)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Retry
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!report) {
+    return (
+      <Card>
+        <CardContent className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading lexicon...
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Library className="h-5 w-5" />
+            Lexicon
+          </CardTitle>
+          <CardDescription>
+            Browse and check the enabled lexicon packs ({options.lexiconPacks.join(", ") || "none"}), highest priority
+            first
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{report.stats.total} entries</Badge>
+            <Badge variant="outline">{report.stats.uniqueUrdu} Urdu keys</Badge>
+            <Badge variant="outline">{report.stats.uniqueRoman} Roman keys</Badge>
+            <Badge variant="outline">{report.stats.phrases} phrases</Badge>
+            <Badge variant={report.malformed.length ? "destructive" : "outline"}>
+              {report.malformed.length} malformed
+            </Badge>
+          </div>
+
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search Urdu or Roman Urdu..." />
+
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Button
+                variant={letterScript === "urdu" ? "default" : "outline"}
+                size="sm"
+                onClick={() => {
+                  setLetterScript("urdu")
+                  setLetter(null)
+                }}
+              >
+                Urdu letters
+              </Button>
+              <Button
+                variant={letterScript === "roman" ? "default" : "outline"}
+                size="sm"
+                onClick={() => {
+                  setLetterScript("roman")
+                  setLetter(null)
+                }}
+              >
+                Roman letters
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-1" dir={letterScript === "urdu" ? "rtl" : "ltr"}>
+              {initials.map((initial) => (
+                <Button
+                  key={initial}
+                  variant={letter === initial ? "default" : "ghost"}
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setLetter(letter === initial ? null : initial)}
+                >
+                  {initial}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <Truncated total={matches.length}>
+            <p className="text-xs text-muted-foreground">{matches.length} matching entries</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Urdu</TableHead>
+                  <TableHead>Roman Urdu</TableHead>
+                  <TableHead>Weight</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.slice(0, MAX_ROWS).map((entry) => (
+                  <TableRow key={entry.index}>
+                    <TableCell className="text-xs text-muted-foreground">{entry.index + 1}</TableCell>
+                    <TableCell dir="rtl">{entry.urdu}</TableCell>
+                    <TableCell>{entry.roman}</TableCell>
+                    <TableCell>{entry.weight}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Truncated>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Validation</CardTitle>
+          <CardDescription>Entries worth reviewing before they reach a transliteration</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="duplicates">
+            <TabsList className="flex h-auto flex-wrap">
+              <TabsTrigger value="duplicates">Duplicates ({report.duplicates.length})</TabsTrigger>
+              <TabsTrigger value="conflicts">Conflicts ({report.conflicts.length})</TabsTrigger>
+              <TabsTrigger value="collisions">Reverse collisions ({report.reverseCollisions.length})</TabsTrigger>
+              <TabsTrigger value="malformed">Malformed ({report.malformed.length})</TabsTrigger>
+              <TabsTrigger value="dictionary">My dictionary ({diff.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="duplicates" className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                The same pair listed more than once. Repeats add up as weight, which changes the ranking.
+              </p>
+              <KeyGroupTable groups={report.duplicates} script="urdu" />
+            </TabsContent>
+
+            <TabsContent value="conflicts" className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Urdu words with several Roman spellings. Urdu → Roman uses the first; the rest are alternatives.
+              </p>
+              <KeyGroupTable groups={report.conflicts} script="urdu" />
+            </TabsContent>
+
+            <TabsContent value="collisions" className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Roman spellings shared by different Urdu words. Roman → Urdu can only pick the first.
+              </p>
+              <KeyGroupTable groups={report.reverseCollisions} script="roman" />
+            </TabsContent>
+
+            <TabsContent value="malformed" className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Entries with empty fields are skipped by the engine; mixed scripts are loaded as they are.
+              </p>
+              <Truncated total={report.malformed.length}>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Urdu</TableHead>
+                      <TableHead>Roman Urdu</TableHead>
+                      <TableHead>Problems</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.malformed.slice(0, MAX_ROWS).map((entry) => (
+                      <TableRow key={entry.index}>
+                        <TableCell className="text-xs text-muted-foreground">{entry.index + 1}</TableCell>
+                        <TableCell dir="rtl">{entry.urdu}</TableCell>
+                        <TableCell>{entry.roman}</TableCell>
+                        <TableCell className="space-x-1">
+                          {entry.problems.map((problem) => (
+                            <Badge key={problem} variant="destructive">
+                              {PROBLEM_LABELS[problem]}
+                            </Badge>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Truncated>
+            </TabsContent>
+
+            <TabsContent value="dictionary" className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                How your dictionary entries differ from the bundled lexicon for the same words.
+              </p>
+              <Truncated total={diff.length}>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Urdu</TableHead>
+                      <TableHead>Roman Urdu</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Lexicon gives</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diff.slice(0, MAX_ROWS).map(({ entry, status, bundledRoman, bundledUrdu }) => (
+                      <TableRow key={entry.id}>
+                        <TableCell dir="rtl">{entry.urdu}</TableCell>
+                        <TableCell>{entry.roman}</TableCell>
+                        <TableCell>
+                          <Badge variant={status === "overrides" ? "default" : "secondary"}>
+                            {DIFF_LABELS[status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {bundledRoman.length > 0 && <span>UR → EN: {bundledRoman.join(", ")} </span>}
+                          {bundledUrdu.length > 0 && <span dir="auto">EN → UR: {bundledUrdu.join("، ")}</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Truncated>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
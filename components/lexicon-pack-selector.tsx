@@ -0,0 +1,84 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Switch } from "@/components/ui/switch"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ArrowDown, ArrowUp } from "lucide-react"
+import { loadLexiconManifest, movePack, type LexiconPack } from "@/lib/lexicon-packs"
+
+interface LexiconPackSelectorProps {
+  packIds: string[]
+  onPackIdsChange: (packIds: string[]) => void
+}
+
+export function LexiconPackSelector({ packIds, onPackIdsChange }: LexiconPackSelectorProps) {
+  const [packs, setPacks] = useState<LexiconPack[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadLexiconManifest()
+      .then(setPacks)
+      .catch((err) => setError(err instanceof Error ? err.message : "The pack list could not be loaded"))
+  }, [])
+
+  if (error) {
+    return <p className="text-xs text-destructive">{error}</p>
+  }
+
+  // Enabled packs in priority order, then the rest in manifest order
+  const enabled = packIds.flatMap((id) => packs.filter((pack) => pack.id === id))
+  const disabled = packs.filter((pack) => !packIds.includes(pack.id))
+
+  const handleToggle = (pack: LexiconPack, checked: boolean) => {
+    onPackIdsChange(checked ? [...packIds, pack.id] : packIds.filter((id) => id !== pack.id))
+  }
+
+  return (
+    <div className="space-y-2">
+      {[...enabled, ...disabled].map((pack) => {
+        const priority = packIds.indexOf(pack.id)
+
+        return (
+          <div key={pack.id} className="flex items-center justify-between gap-3 rounded-md border p-3">
+            <div className="space-y-0.5">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{pack.name}</span>
+                {priority >= 0 && <Badge variant="secondary">#{priority + 1}</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">{pack.description}</p>
+            </div>
+            <div className="flex items-center gap-1">
+              {priority >= 0 && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onPackIdsChange(movePack(packIds, pack.id, -1))}
+                    disabled={priority === 0}
+                    aria-label={`Raise ${pack.name} priority`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onPackIdsChange(movePack(packIds, pack.id, 1))}
+                    disabled={priority === packIds.length - 1}
+                    aria-label={`Lower ${pack.name} priority`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+              <Switch checked={priority >= 0} onCheckedChange={(checked) => handleToggle(pack, checked)} />
+            </div>
+          </div>
+        )
+      })}
+      {packs.length > 0 && packIds.length === 0 && (
+        <p className="text-xs text-muted-foreground">No packs enabled: every word goes through the rules</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Plus, Trash2 } from "lucide-react"
+import {
+  compilePhoneticRule,
+  resolvePhoneticRules,
+  type PhoneticRule,
+  type PhoneticRuleDirection,
+} from "@/lib/phonetic-rules"
+
+interface PhoneticRulesEditorProps {
+  disabledRuleIds: string[]
+  customRules: PhoneticRule[]
+  onDisabledRuleIdsChange: (ruleIds: string[]) => void
+  onCustomRulesChange: (rules: PhoneticRule[]) => void
+}
+
+const DIRECTION_LABELS: Record<PhoneticRuleDirection, string> = {
+  "urdu-to-roman": "Urdu → Roman",
+  "roman-to-urdu": "Roman → Urdu",
+}
+
+export function PhoneticRulesEditor({
+  disabledRuleIds,
+  customRules,
+  onDisabledRuleIdsChange,
+  onCustomRulesChange,
+}: PhoneticRulesEditorProps) {
+  const [name, setName] = useState("")
+  const [pattern, setPattern] = useState("")
+  const [replacement, setReplacement] = useState("")
+  const [direction, setDirection] = useState<PhoneticRuleDirection>("urdu-to-roman")
+
+  const rules = resolvePhoneticRules(disabledRuleIds, customRules)
+  const isPatternValid = !pattern || compilePhoneticRule(pattern) !== null
+
+  const handleToggle = (rule: PhoneticRule, enabled: boolean) => {
+    if (rule.custom) {
+      onCustomRulesChange(customRules.map((custom) => (custom.id === rule.id ? { ...custom, enabled } : custom)))
+    } else {
+      onDisabledRuleIdsChange(enabled ? disabledRuleIds.filter((id) => id !== rule.id) : [...disabledRuleIds, rule.id])
+    }
+  }
+
+  const handleAdd = () => {
+    if (!name.trim() || !pattern || !isPatternValid) return
+
+    onCustomRulesChange([
+      ...customRules,
+      {
+        id: `custom-${Date.now()}`,
+        name: name.trim(),
+        description: `/${pattern}/ → "${replacement}"`,
+        direction,
+        pattern,
+        replacement,
+        enabled: true,
+        custom: true,
+      },
+    ])
+    setName("")
+    setPattern("")
+    setReplacement("")
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {rules.map((rule) => (
+          <div key={rule.id} className="flex items-center justify-between gap-3 rounded-md border p-2">
+            <div className="space-y-0.5">
+              <div className="flex items-center gap-2">
+                <Label>{rule.name}</Label>
+                <Badge variant="outline" className="text-xs">
+                  {DIRECTION_LABELS[rule.direction]}
+                </Badge>
+                {compilePhoneticRule(rule.pattern) === null && (
+                  <Badge variant="destructive" className="text-xs">
+                    Invalid pattern
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">{rule.description}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={rule.enabled} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+              {rule.custom && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onCustomRulesChange(customRules.filter((custom) => custom.id !== rule.id))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+        <Input placeholder="Rule name" value={name} onChange={(e) => setName(e.target.value)} />
+        <Input
+          placeholder="Pattern (regex)"
+          value={pattern}
+          aria-invalid={!isPatternValid}
+          onChange={(e) => setPattern(e.target.value)}
+          className="font-mono"
+        />
+        <Input
+          placeholder="Replacement"
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          className="font-mono"
+        />
+        <Select value={direction} onValueChange={(value: PhoneticRuleDirection) => setDirection(value)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="urdu-to-roman">{DIRECTION_LABELS["urdu-to-roman"]}</SelectItem>
+            <SelectItem value="roman-to-urdu">{DIRECTION_LABELS["roman-to-urdu"]}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {isPatternValid
+            ? "Rules run in order on each rule-based word; replacements may use $1-style groups"
+            : "Pattern is not a valid regular expression"}
+        </p>
+        <Button variant="outline" size="sm" onClick={handleAdd} disabled={!name.trim() || !pattern || !isPatternValid}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -10,9 +10,12 @@ interface QualityIndicatorProps {
   result: TransliterationResult
   showDetails?: boolean
   size?: "sm" | "md" | "lg"
+  // Words below this confidence percentage are listed for double-checking
+  threshold?: number
 }
 
-export function QualityIndicator({ result, showDetails = false, size = "md" }: QualityIndicatorProps) {
+export function QualityIndicator({ result, showDetails = false, size = "md", threshold = 80 }: QualityIndicatorProps) {
+  const confidencePercentage = Math.round(result.confidence * 100)
   const completenessPercentage =
     result.completeness.totalWords > 0
       ? Math.round(
@@ -29,7 +32,12 @@ export function QualityIndicator({ result, showDetails = false, size = "md" }: Q
     return { level: "poor", color: "text-red-600", icon: XCircle }
   }
 
-  const quality = getQualityLevel(completenessPercentage)
+  const ruleBasedTokens = result.tokens.filter((token) => token.method === "rule-based")
+  const doubtfulTokens = result.tokens.filter(
+    (token) => token.method !== "punctuation" && Math.round(token.confidence * 100) < threshold,
+  )
+
+  const quality = getQualityLevel(confidencePercentage)
   const Icon = quality.icon
 
   const getMethodBadgeColor = (method: string) => {
@@ -56,11 +64,14 @@ export function QualityIndicator({ result, showDetails = false, size = "md" }: Q
             <TooltipTrigger asChild>
               <div className="flex items-center gap-1">
                 <Icon className={`${iconSize} ${quality.color}`} />
-                <span className={`font-medium ${quality.color} ${textSize}`}>{completenessPercentage}%</span>
+                <span className={`font-medium ${quality.color} ${textSize}`}>{confidencePercentage}%</span>
               </div>
             </TooltipTrigger>
             <TooltipContent>
-              <p>Translation completeness: {quality.level}</p>
+              <p>Translation confidence: {quality.level}</p>
+              {confidencePercentage < threshold && (
+                <p className="text-xs opacity-80">Below the {threshold}% quality threshold</p>
+              )}
             </TooltipContent>
           </Tooltip>
 
@@ -71,7 +82,7 @@ export function QualityIndicator({ result, showDetails = false, size = "md" }: Q
 
         {showDetails && (
           <div className="space-y-2">
-            <Progress value={completenessPercentage} className="h-2" />
+            <Progress value={confidencePercentage} className="h-2" />
 
             <div className={`grid grid-cols-2 gap-4 ${textSize} text-muted-foreground`}>
               <div>
@@ -80,8 +91,41 @@ export function QualityIndicator({ result, showDetails = false, size = "md" }: Q
               <div>
                 <span className="font-medium">Untransliterated:</span> {result.completeness.untransliteratedCount}
               </div>
+              <div>
+                <span className="font-medium">Rule-based Words:</span> {ruleBasedTokens.length}
+              </div>
+              <div>
+                <span className="font-medium">Completeness:</span> {completenessPercentage}%
+              </div>
             </div>
 
+            {doubtfulTokens.length > 0 && (
+              <div className={`${textSize}`}>
+                <span className="font-medium text-muted-foreground">Double-check:</span>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {doubtfulTokens.slice(0, 10).map((token, index) => (
+                    <Tooltip key={index}>
+                      <TooltipTrigger asChild>
+                        <Badge variant="outline" className="text-xs bg-blue-50 dark:bg-blue-950">
+                          {token.outputText}
+                        </Badge>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>
+                          {Math.round(token.confidence * 100)}% confidence for {token.sourceText}
+                        </p>
+                      </TooltipContent>
+                    </Tooltip>
+                  ))}
+                  {doubtfulTokens.length > 10 && (
+                    <Badge variant="outline" className="text-xs">
+                      +{doubtfulTokens.length - 10} more
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            )}
+
             {result.completeness.untransliteratedParts.length > 0 && (
               <div className={`${textSize}`}>
                 <span className="font-medium text-muted-foreground">Issues with:</span>
@@ -20,12 +20,13 @@ import {
   Download
 } from "lucide-react"
 import { useTranslationOptions } from "@/lib/translation-options-context"
-import { transliterationEngine } from "@/lib/transliteration"
+import { enhancedTransliterationEngine } from "@/components/enhanced-transliteration-engine"
+import { DIRECTION_LABELS, SWAPPED_DIRECTIONS, type TransliterationDirection } from "@/lib/transliteration-pipeline"
 import { trackFeatureUsageEvent, trackTranslationEvent } from "@/components/analytics-tracker"
 
 interface TextEditorProps {
-  direction: "urdu-to-roman" | "roman-to-urdu"
-  onDirectionChange: (direction: "urdu-to-roman" | "roman-to-urdu") => void
+  direction: TransliterationDirection
+  onDirectionChange: (direction: TransliterationDirection) => void
 }
 
 interface FormattedText {
@@ -41,6 +42,13 @@ interface FormattedText {
   }
 }
 
+// What the editor is written in for each direction
+const SOURCE_LANGUAGES: Record<TransliterationDirection, string> = {
+  "urdu-to-roman": "Urdu",
+  "roman-to-urdu": "Roman Urdu",
+  "english-to-urdu": "English",
+}
+
 export function RichTextEditor({ direction, onDirectionChange }: TextEditorProps) {
   const [convertedContent, setConvertedContent] = useState<string>("")
   const [isConverting, setIsConverting] = useState(false)
@@ -208,15 +216,9 @@ export function RichTextEditor({ direction, onDirectionChange }: TextEditorProps
         const originalText = originalElement.textContent || ''
         
         if (originalText.trim()) {
-          // Convert this line's text
-          let convertedText: string
-          if (direction === "roman-to-urdu") {
-            const result = await transliterationEngine.transliterateRomanToUrdu(originalText)
-            convertedText = result.transliteratedText
-          } else {
-            const result = await transliterationEngine.transliterateUrduToRoman(originalText)
-            convertedText = result.transliteratedText
-          }
+          // Convert this line's text in the transliteration worker, with the user's options
+          const result = await enhancedTransliterationEngine.transliterateWithOptions(originalText, direction, options)
+          const convertedText = result.transliteratedText
           
           console.log(`Line ${i + 1}: "${originalText}" → "${convertedText}"`)
           
@@ -292,8 +294,7 @@ export function RichTextEditor({ direction, onDirectionChange }: TextEditorProps
   }
 
   const swapDirection = () => {
-    const newDirection = direction === "urdu-to-roman" ? "roman-to-urdu" : "urdu-to-roman"
-    onDirectionChange(newDirection)
+    onDirectionChange(SWAPPED_DIRECTIONS[direction])
     setConvertedContent("")
   }
 
@@ -339,11 +340,11 @@ export function RichTextEditor({ direction, onDirectionChange }: TextEditorProps
               <CardTitle className="leading-none font-semibold flex flex-col sm:flex-row sm:items-center gap-2">
                 Rich Text Editor
                 <Badge variant="secondary" className="text-xs w-fit">
-                  {direction === "roman-to-urdu" ? "Roman → Urdu" : "Urdu → Roman"}
+                  {DIRECTION_LABELS[direction]}
                 </Badge>
               </CardTitle>
               <p className="text-muted-foreground text-sm mt-1">
-                Write and format text in {direction === "roman-to-urdu" ? "Roman Urdu" : "Urdu"}, then convert while preserving formatting
+                Write and format text in {SOURCE_LANGUAGES[direction]}, then convert while preserving formatting
               </p>
             </div>
             <Button
@@ -472,7 +473,7 @@ export function RichTextEditor({ direction, onDirectionChange }: TextEditorProps
             {/* Input Editor */}
             <div className="space-y-3">
               <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
-                <h4 className="text-sm font-medium">Input Text ({direction === "roman-to-urdu" ? "Roman Urdu" : "Urdu"})</h4>
+                <h4 className="text-sm font-medium">Input Text ({SOURCE_LANGUAGES[direction]})</h4>
                 <div className="flex gap-2">
                   <Button
                     onClick={clearContent}
@@ -511,7 +512,7 @@ export function RichTextEditor({ direction, onDirectionChange }: TextEditorProps
             {/* Converted Output */}
             <div className="space-y-3">
               <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
-                <h4 className="text-sm font-medium">Converted Text ({direction === "roman-to-urdu" ? "Urdu" : "Roman Urdu"})</h4>
+                <h4 className="text-sm font-medium">Converted Text ({direction === "urdu-to-roman" ? "Roman Urdu" : "Urdu"})</h4>
                 <Button
                   onClick={convertContent}
                   disabled={!editorRef.current?.innerText.trim() || isConverting}
@@ -524,8 +525,8 @@ export function RichTextEditor({ direction, onDirectionChange }: TextEditorProps
               <div 
                 className="min-h-64 p-4 border rounded-lg bg-muted/30 overflow-auto"
                 style={{
-                  fontFamily: getFontFamily(getCurrentFormat().fontFamily, direction === "roman-to-urdu"),
-                  direction: direction === "roman-to-urdu" ? "rtl" : "ltr"
+                  fontFamily: getFontFamily(getCurrentFormat().fontFamily, direction !== "urdu-to-roman"),
+                  direction: direction !== "urdu-to-roman" ? "rtl" : "ltr"
                 }}
                 dangerouslySetInnerHTML={{ __html: convertedContent || '<p class="text-muted-foreground text-sm">Converted text will appear here...</p>' }}
               />
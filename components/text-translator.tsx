@@ -1,37 +1,68 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
-import { Copy, RotateCcw, ArrowRightLeft, Loader2 } from "lucide-react"
-import type { TransliterationResult } from "@/lib/transliteration"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Copy, RotateCcw, ArrowRightLeft, Loader2, AlertCircle } from "lucide-react"
+import { selectTokenOutput, type TransliterationResult } from "@/lib/transliteration"
 import { useToast } from "@/hooks/use-toast"
 import { useTranslationOptions } from "@/lib/translation-options-context"
 import { enhancedTransliterationEngine } from "@/components/enhanced-transliteration-engine"
 import { QualityIndicator } from "@/components/quality-indicator"
+import { HighlightedOutput } from "@/components/highlighted-output"
+import { TokenCorrectionDialog } from "@/components/token-correction-dialog"
+import { detectScript, contradictedDirection, SCRIPT_LABELS } from "@/lib/script-detection"
+import { DIRECTION_LABELS, SWAPPED_DIRECTIONS, type TransliterationDirection } from "@/lib/transliteration-pipeline"
 
 interface TextTranslatorProps {
-  direction: "urdu-to-roman" | "roman-to-urdu"
-  onDirectionChange?: (direction: "urdu-to-roman" | "roman-to-urdu") => void
+  direction: TransliterationDirection
+  onDirectionChange?: (direction: TransliterationDirection) => void
+}
+
+// Auto mode waits for a pause in typing before it switches the direction
+const AUTO_DETECT_DELAY_MS = 800
+
+const INPUT_LABELS: Record<TransliterationDirection, { label: string; placeholder: string }> = {
+  "urdu-to-roman": { label: "Urdu Text Input", placeholder: "یہاں اردو متن لکھیں..." },
+  "roman-to-urdu": { label: "Roman Urdu Input", placeholder: "Type Roman Urdu text here..." },
+  "english-to-urdu": { label: "English Input", placeholder: "Type English text here..." },
 }
 
 export function TextTranslator({ direction, onDirectionChange }: TextTranslatorProps) {
   const [inputText, setInputText] = useState("")
   const [result, setResult] = useState<TransliterationResult | null>(null)
   const [isTranslating, setIsTranslating] = useState(false)
+  const [correctingToken, setCorrectingToken] = useState<number | null>(null)
   const { toast } = useToast()
   const { options } = useTranslationOptions()
 
+  useEffect(() => {
+    enhancedTransliterationEngine.preloadLexicon(options.lexiconPacks)
+  }, [options.lexiconPacks])
+
+  const detection = useMemo(() => detectScript(inputText), [inputText])
+  const suggestedDirection = contradictedDirection(detection, direction)
+  const autoDetect = options.autoDetectDirection
+
+  // In auto mode the direction follows the script of whatever is typed or pasted, once typing pauses
+  useEffect(() => {
+    if (!autoDetect || !suggestedDirection) return
+    const timer = setTimeout(() => onDirectionChange?.(suggestedDirection), AUTO_DETECT_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [autoDetect, suggestedDirection, onDirectionChange, inputText])
+
   const handleTranslate = useCallback(async () => {
     if (!inputText.trim()) return
 
     setIsTranslating(true)
     try {
+      // Auto mode does not wait for the direction switch to render before translating
       const translationResult = await enhancedTransliterationEngine.transliterateWithOptions(
         inputText,
-        direction,
+        autoDetect && suggestedDirection ? suggestedDirection : direction,
         options,
       )
 
@@ -45,7 +76,7 @@ export function TextTranslator({ direction, onDirectionChange }: TextTranslatorP
     } finally {
       setIsTranslating(false)
     }
-  }, [inputText, direction, options, toast])
+  }, [inputText, direction, options, autoDetect, suggestedDirection, toast])
 
   const handleCopy = async (text: string) => {
     try {
@@ -63,6 +94,10 @@ export function TextTranslator({ direction, onDirectionChange }: TextTranslatorP
     }
   }
 
+  const handleSelectAlternative = (tokenIndex: number, alternative: string) => {
+    setResult((current) => (current ? selectTokenOutput(current, tokenIndex, alternative) : current))
+  }
+
   const handleClear = () => {
     setInputText("")
     setResult(null)
@@ -70,8 +105,7 @@ export function TextTranslator({ direction, onDirectionChange }: TextTranslatorP
 
   const handleSwapDirection = () => {
     if (onDirectionChange) {
-      const newDirection = direction === "urdu-to-roman" ? "roman-to-urdu" : "urdu-to-roman"
-      onDirectionChange(newDirection)
+      onDirectionChange(SWAPPED_DIRECTIONS[direction])
 
       // Swap input and output if there's a result
       if (result) {
@@ -94,8 +128,6 @@ export function TextTranslator({ direction, onDirectionChange }: TextTranslatorP
     }
   }
 
-  const inputPlaceholder = direction === "urdu-to-roman" ? "یہاں اردو متن لکھیں..." : "Type Roman Urdu text here..."
-
   const outputLabel = direction === "urdu-to-roman" ? "Roman Urdu Output" : "Urdu Script Output"
 
   return (
@@ -110,7 +142,9 @@ export function TextTranslator({ direction, onDirectionChange }: TextTranslatorP
                   {direction === "urdu-to-roman" ? "UR → EN" : "EN → UR"}
                 </Badge>
               </CardTitle>
-              <CardDescription>Real-time transliteration between Urdu and Roman scripts</CardDescription>
+              <CardDescription>
+                Real-time transliteration between Urdu and Roman scripts, and from English
+              </CardDescription>
             </div>
             {onDirectionChange && (
               <Button
@@ -128,19 +162,18 @@ export function TextTranslator({ direction, onDirectionChange }: TextTranslatorP
         <CardContent className="space-y-4">
           {/* Input Section */}
           <div className="space-y-2">
-            <label className="text-sm font-medium">
-              {direction === "urdu-to-roman" ? "Urdu Text Input" : "Roman Urdu Input"}
-            </label>
+            <label className="text-sm font-medium">{INPUT_LABELS[direction].label}</label>
             <Textarea
               value={inputText}
               onChange={(e) => setInputText(e.target.value)}
-              placeholder={inputPlaceholder}
+              placeholder={INPUT_LABELS[direction].placeholder}
               className="min-h-32 resize-none"
               dir={direction === "urdu-to-roman" ? "rtl" : "ltr"}
             />
             <div className="flex items-center justify-between">
               <span className="text-xs text-muted-foreground">
                 {inputText.length} characters, {inputText.split(/\s+/).filter(Boolean).length} words
+                {detection.script !== "unknown" && <>, {SCRIPT_LABELS[detection.script]}</>}
               </span>
               <div className="flex gap-2">
                 <Button variant="outline" size="sm" onClick={handleClear} disabled={!inputText && !result}>
@@ -159,6 +192,22 @@ export function TextTranslator({ direction, onDirectionChange }: TextTranslatorP
             </div>
           </div>
 
+          {!autoDetect && suggestedDirection && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  This looks like {SCRIPT_LABELS[detection.script]}, but the direction is {DIRECTION_LABELS[direction]}
+                </span>
+                {onDirectionChange && (
+                  <Button variant="outline" size="sm" onClick={() => onDirectionChange(suggestedDirection)}>
+                    Switch to {DIRECTION_LABELS[suggestedDirection]}
+                  </Button>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Output Section */}
           {result && (
             <div className="space-y-3 pt-4 border-t">
@@ -179,7 +228,21 @@ export function TextTranslator({ direction, onDirectionChange }: TextTranslatorP
                 dir={direction === "urdu-to-roman" ? "ltr" : "rtl"}
               />
 
-              <QualityIndicator result={result} showDetails={true} />
+              <HighlightedOutput
+                result={result}
+                dir={direction === "urdu-to-roman" ? "ltr" : "rtl"}
+                onSelectAlternative={handleSelectAlternative}
+                onCorrectToken={setCorrectingToken}
+              />
+
+              <QualityIndicator result={result} showDetails={true} threshold={options.qualityThreshold} />
+
+              <TokenCorrectionDialog
+                token={correctingToken !== null ? (result.tokens[correctingToken] ?? null) : null}
+                direction={direction}
+                onOpenChange={(open) => !open && setCorrectingToken(null)}
+                onSaved={handleTranslate}
+              />
             </div>
           )}
         </CardContent>
@@ -0,0 +1,165 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { TOKEN_SOURCE_LABELS } from "@/components/highlighted-output"
+import { useToast } from "@/hooks/use-toast"
+import { useUserDictionary } from "@/lib/user-dictionary-context"
+import { createUserDictionaryEntry } from "@/lib/user-dictionary"
+import { splitPunctuation } from "@/lib/punctuation"
+import type { TransliterationToken } from "@/lib/transliteration"
+import type { TransliterationDirection } from "@/lib/transliteration-pipeline"
+
+interface TokenCorrectionDialogProps {
+  token: TransliterationToken | null
+  // English words are corrected like Roman Urdu ones, as Roman→Urdu entries
+  direction: TransliterationDirection
+  onOpenChange: (open: boolean) => void
+  // Called once the correction is in the dictionary, so the caller can translate again
+  onSaved: () => void
+}
+
+export function TokenCorrectionDialog({ token, direction, onOpenChange, onSaved }: TokenCorrectionDialogProps) {
+  const { entries, saveEntry } = useUserDictionary()
+  const { toast } = useToast()
+  const [correction, setCorrection] = useState("")
+  const [bothDirections, setBothDirections] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Punctuation around the word is not part of the dictionary entry
+  const sourceWord = token ? splitPunctuation(token.sourceText).core : ""
+  const currentOutput = token ? splitPunctuation(token.outputText).core : ""
+  const fromUrdu = direction === "urdu-to-roman"
+
+  useEffect(() => {
+    setCorrection(currentOutput)
+    setBothDirections(false)
+  }, [token])
+
+  // An entry the user already made for this word is corrected rather than shadowed by a second one
+  const existing = entries.find((entry) =>
+    fromUrdu
+      ? entry.urduToRoman && entry.urdu === sourceWord
+      : entry.romanToUrdu && entry.roman.toLowerCase() === sourceWord.toLowerCase(),
+  )
+
+  const canSave = !!correction.trim() && correction.trim() !== currentOutput
+
+  const handleSave = async () => {
+    if (!canSave) return
+
+    const urdu = fromUrdu ? sourceWord : correction
+    const roman = fromUrdu ? correction : sourceWord
+
+    setIsSaving(true)
+    try {
+      if (existing) {
+        await saveEntry({ ...existing, urdu: urdu.trim(), roman: roman.trim() })
+      } else {
+        await saveEntry(
+          createUserDictionaryEntry({
+            urdu,
+            roman,
+            urduToRoman: fromUrdu || bothDirections,
+            romanToUrdu: !fromUrdu || bothDirections,
+          }),
+        )
+      }
+      toast({ title: "Correction saved", description: `${sourceWord} → ${correction.trim()}` })
+      onOpenChange(false)
+      onSaved()
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "The correction could not be saved",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={token !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Correct this word</DialogTitle>
+          <DialogDescription>
+            The correction is saved to your dictionary and used for this word from now on.
+          </DialogDescription>
+        </DialogHeader>
+
+        {token && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Source</p>
+                <p className="text-base" dir={fromUrdu ? "rtl" : "ltr"}>
+                  {sourceWord}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Current output</p>
+                <p className="text-base" dir={fromUrdu ? "ltr" : "rtl"}>
+                  {currentOutput}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant="outline">{TOKEN_SOURCE_LABELS[token.method]}</Badge>
+              <span>{Math.round(token.confidence * 100)}% confidence</span>
+              {token.fuzzyMatch && <span>matched to {token.fuzzyMatch.key}</span>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="token-correction">Correct {fromUrdu ? "Roman Urdu" : "Urdu"}</Label>
+              <Input
+                id="token-correction"
+                value={correction}
+                onChange={(e) => setCorrection(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                dir={fromUrdu ? "ltr" : "rtl"}
+                autoFocus
+              />
+            </div>
+
+            {existing ? (
+              <p className="text-xs text-muted-foreground">This updates the dictionary entry you already have.</p>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Switch id="token-correction-both" checked={bothDirections} onCheckedChange={setBothDirections} />
+                <Label htmlFor="token-correction-both" className="text-sm font-normal">
+                  Also use when transliterating {fromUrdu ? "Roman Urdu to Urdu" : "Urdu to Roman Urdu"}
+                </Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save correction
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -14,10 +14,25 @@ import { Separator } from "@/components/ui/separator"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Settings, Download, Upload, RotateCcw, Info } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { PhoneticRulesEditor } from "@/components/phonetic-rules-editor"
+import { LexiconPackSelector } from "@/components/lexicon-pack-selector"
+import type { DiacriticsHandling, PreferredMethod } from "@/lib/transliteration"
+import type { DigitConversion } from "@/lib/digits"
+import type { PunctuationHandling } from "@/lib/punctuation"
+import type { PhoneticRule } from "@/lib/phonetic-rules"
+import type { EnglishWordPolicy } from "@/lib/language-id"
+import { ROMANIZATION_SCHEMES, type RomanizationSchemeId } from "@/lib/romanization-schemes"
+import { DEFAULT_LEXICON_PACKS } from "@/lib/lexicon-packs"
 
 export interface TranslationOptions {
   // Method preferences
-  preferredMethod: "auto" | "lexicon-first" | "rule-based-first" | "lexicon-only" | "rule-based-only"
+  preferredMethod: PreferredMethod
+  romanizationScheme: RomanizationSchemeId
+  fuzzyMatching: boolean
+  // English words in Roman Urdu input: Urdu spelling, left in English, or left in English between markers
+  englishWords: EnglishWordPolicy
+  // Enabled lexicon packs, highest priority first
+  lexiconPacks: string[]
 
   // Quality settings
   qualityThreshold: number
@@ -26,12 +41,14 @@ export interface TranslationOptions {
   // Text processing
   preserveFormatting: boolean
   normalizeText: boolean
-  handleDiacritics: "remove" | "preserve" | "normalize"
-  digitConversion: "auto" | "arabic-to-english" | "preserve"
+  handleDiacritics: DiacriticsHandling
+  digitConversion: DigitConversion
+  // Switch the direction to match the script of the input instead of only pointing out a mismatch
+  autoDetectDirection: boolean
 
   // Output formatting
   outputCase: "preserve" | "lowercase" | "uppercase" | "title"
-  punctuationHandling: "convert" | "preserve" | "remove"
+  punctuationHandling: PunctuationHandling
 
   // File processing
   batchSize: number
@@ -40,24 +57,34 @@ export interface TranslationOptions {
 
   // Advanced
   enablePhoneticRules: boolean
+  // Built-in phonetic rules the user switched off, and the user's own rules in order
+  disabledPhoneticRules: string[]
+  customPhoneticRules: PhoneticRule[]
   strictMode: boolean
   debugMode: boolean
 }
 
 const DEFAULT_OPTIONS: TranslationOptions = {
   preferredMethod: "auto",
+  romanizationScheme: "casual",
+  fuzzyMatching: true,
+  englishWords: "transliterate",
+  lexiconPacks: DEFAULT_LEXICON_PACKS,
   qualityThreshold: 80,
   showIncompleteWarnings: true,
   preserveFormatting: true,
   normalizeText: true,
   handleDiacritics: "remove",
   digitConversion: "auto",
+  autoDetectDirection: false,
   outputCase: "preserve",
   punctuationHandling: "convert",
   batchSize: 10,
   progressUpdates: true,
   autoDownload: false,
   enablePhoneticRules: true,
+  disabledPhoneticRules: [],
+  customPhoneticRules: [],
   strictMode: false,
   debugMode: false,
 }
@@ -126,7 +153,8 @@ export function TranslationSettings({
     const reader = new FileReader()
     reader.onload = (e) => {
       try {
-        const importedOptions = JSON.parse(e.target?.result as string) as TranslationOptions
+        // Files exported before newer options existed fall back to their defaults
+        const importedOptions = { ...DEFAULT_OPTIONS, ...JSON.parse(e.target?.result as string) } as TranslationOptions
         setLocalOptions(importedOptions)
         onOptionsChange(importedOptions)
         if (onImport) onImport(importedOptions)
@@ -215,7 +243,85 @@ export function TranslationSettings({
                   <SelectItem value="rule-based-only">Rule-based Only</SelectItem>
                 </SelectContent>
               </Select>
+              <p className="text-xs text-muted-foreground">
+                Auto only swaps a word for a close lexicon spelling when that scores higher than the rules; Lexicon
+                First always does. Lexicon Only leaves unknown words in the source script so lexicon gaps show up as
+                untransliterated
+              </p>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="scheme">Romanization Scheme</Label>
+              <Select
+                value={localOptions.romanizationScheme}
+                onValueChange={(value: TranslationOptions["romanizationScheme"]) =>
+                  handleOptionChange("romanizationScheme", value)
+                }
+              >
+                <SelectTrigger id="scheme">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(ROMANIZATION_SCHEMES).map((scheme) => (
+                    <SelectItem key={scheme.id} value={scheme.id}>
+                      {scheme.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {ROMANIZATION_SCHEMES[localOptions.romanizationScheme].description}.
+                {!ROMANIZATION_SCHEMES[localOptions.romanizationScheme].usesLexicon &&
+                  " The lexicon is written in casual Roman Urdu, so this scheme uses the rules only."}
+                {ROMANIZATION_SCHEMES[localOptions.romanizationScheme].reversible &&
+                  " Text is encoded as-is: formatting, punctuation and digit options do not apply."}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Fuzzy Spelling Match</Label>
+              <p className="text-xs text-muted-foreground">
+                Match Roman spelling variants (kia, kiya → kya) to the lexicon before using rules
+              </p>
+            </div>
+            <Switch
+              checked={localOptions.fuzzyMatching}
+              onCheckedChange={(checked) => handleOptionChange("fuzzyMatching", checked)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="english-words">English Words in Roman Urdu</Label>
+            <Select
+              value={localOptions.englishWords}
+              onValueChange={(value: EnglishWordPolicy) => handleOptionChange("englishWords", value)}
+            >
+              <SelectTrigger id="english-words">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="transliterate">Write in Urdu (meeting → میٹنگ)</SelectItem>
+                <SelectItem value="keep">Keep in English</SelectItem>
+                <SelectItem value="mark">Keep in English, marked [meeting]</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              English words are told apart by word lists, the lexicon and their spelling; hover a word in the output to
+              see the call
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Lexicon Packs</Label>
+            <p className="text-xs text-muted-foreground">
+              Domain word lists to look words up in. When packs spell a word differently, the higher one wins
+            </p>
+            <LexiconPackSelector
+              packIds={localOptions.lexiconPacks}
+              onPackIdsChange={(packIds) => handleOptionChange("lexiconPacks", packIds)}
+            />
           </div>
 
           <Separator />
@@ -237,7 +343,9 @@ export function TranslationSettings({
                 step={5}
                 className="w-full"
               />
-              <p className="text-xs text-muted-foreground">Minimum acceptable translation completeness percentage</p>
+              <p className="text-xs text-muted-foreground">
+                Minimum acceptable translation confidence; words and files below it are flagged
+              </p>
             </div>
 
             <div className="flex items-center justify-between">
@@ -302,6 +410,10 @@ export function TranslationSettings({
                   <SelectItem value="normalize">Normalize Diacritics</SelectItem>
                 </SelectContent>
               </Select>
+              <p className="text-xs text-muted-foreground">
+                Preserve and Normalize read zabar, zer, pesh and shadda in vocalized text; Preserve also writes them in
+                Urdu output
+              </p>
             </div>
 
             <div className="space-y-2">
@@ -321,6 +433,10 @@ export function TranslationSettings({
                   <SelectItem value="preserve">Preserve Original</SelectItem>
                 </SelectContent>
               </Select>
+              <p className="text-xs text-muted-foreground">
+                Auto reads ٠-٩ and ۰-۹ as numbers and writes Urdu digits (۰-۹) in Urdu output; Arabic to English always
+                writes 0-9
+              </p>
             </div>
           </div>
 
@@ -369,6 +485,9 @@ export function TranslationSettings({
                     <SelectItem value="remove">Remove Punctuation</SelectItem>
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-muted-foreground">
+                  Covers ۔ ؟ ، ؛, quotes, brackets and ellipses; a full stop between digits is kept as a decimal point
+                </p>
               </div>
             </div>
           </div>
@@ -444,7 +563,7 @@ export function TranslationSettings({
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
                   <Label>Strict Mode</Label>
-                  <p className="text-xs text-muted-foreground">Enforce stricter validation</p>
+                  <p className="text-xs text-muted-foreground">Fail on characters that have no mapping</p>
                 </div>
                 <Switch
                   checked={localOptions.strictMode}
@@ -464,6 +583,18 @@ export function TranslationSettings({
               </div>
             </div>
 
+            {localOptions.enablePhoneticRules && (
+              <div className="space-y-2">
+                <Label>Phonetic Rule List</Label>
+                <PhoneticRulesEditor
+                  disabledRuleIds={localOptions.disabledPhoneticRules}
+                  customRules={localOptions.customPhoneticRules}
+                  onDisabledRuleIdsChange={(ruleIds) => handleOptionChange("disabledPhoneticRules", ruleIds)}
+                  onCustomRulesChange={(rules) => handleOptionChange("customPhoneticRules", rules)}
+                />
+              </div>
+            )}
+
             {localOptions.debugMode && (
               <Alert>
                 <Info className="h-4 w-4" />
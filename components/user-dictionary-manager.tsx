@@ -0,0 +1,277 @@
+"use client"
+
+import { useRef, useState, type ChangeEvent } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { BookOpen, Download, Pencil, Plus, Trash2, Upload, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useUserDictionary } from "@/lib/user-dictionary-context"
+import { createUserDictionaryEntry, type UserDictionaryEntry, type UserDictionaryFormat } from "@/lib/user-dictionary"
+
+interface EntryForm {
+  urdu: string
+  roman: string
+  note: string
+  urduToRoman: boolean
+  romanToUrdu: boolean
+}
+
+const EMPTY_FORM: EntryForm = { urdu: "", roman: "", note: "", urduToRoman: true, romanToUrdu: true }
+
+function downloadText(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+export function UserDictionaryManager() {
+  const { entries, loaded, saveEntry, deleteEntry, importEntries, exportEntries } = useUserDictionary()
+  const { toast } = useToast()
+  const [form, setForm] = useState<EntryForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [filter, setFilter] = useState("")
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const canSave = form.urdu.trim() && form.roman.trim() && (form.urduToRoman || form.romanToUrdu)
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setEditingId(null)
+  }
+
+  const handleSave = async () => {
+    if (!canSave) return
+
+    const entry = createUserDictionaryEntry(form)
+    try {
+      await saveEntry(editingId ? { ...entry, id: editingId } : entry)
+      toast({ title: editingId ? "Entry updated" : "Entry added", description: `${entry.urdu} ↔ ${entry.roman}` })
+      resetForm()
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "The entry could not be saved",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleEdit = (entry: UserDictionaryEntry) => {
+    setEditingId(entry.id)
+    setForm({
+      urdu: entry.urdu,
+      roman: entry.roman,
+      note: entry.note ?? "",
+      urduToRoman: entry.urduToRoman,
+      romanToUrdu: entry.romanToUrdu,
+    })
+  }
+
+  const handleDelete = async (entry: UserDictionaryEntry) => {
+    try {
+      await deleteEntry(entry.id)
+      if (editingId === entry.id) resetForm()
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "The entry could not be deleted",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    const format: UserDictionaryFormat = file.name.toLowerCase().endsWith(".csv") ? "csv" : "json"
+    try {
+      const count = await importEntries(await file.text(), format)
+      toast({ title: "Dictionary imported", description: `${count} entries from ${file.name}` })
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "The file could not be read",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleExport = (format: UserDictionaryFormat) => {
+    const type = format === "csv" ? "text/csv" : "application/json"
+    downloadText(exportEntries(format), `user-dictionary.${format}`, type)
+  }
+
+  const query = filter.trim().toLowerCase()
+  const visibleEntries = entries
+    .filter(
+      (entry) =>
+        !query ||
+        entry.urdu.includes(filter.trim()) ||
+        entry.roman.toLowerCase().includes(query) ||
+        entry.note?.toLowerCase().includes(query),
+    )
+    .sort((a, b) => a.roman.localeCompare(b.roman))
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            My Dictionary
+            <Badge variant="outline">{entries.length} entries</Badge>
+          </CardTitle>
+          <CardDescription>
+            Your spellings for names, places and brands. They are used before the built-in lexicon.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="dictionary-urdu">Urdu</Label>
+              <Input
+                id="dictionary-urdu"
+                dir="rtl"
+                value={form.urdu}
+                onChange={(e) => setForm({ ...form, urdu: e.target.value })}
+                placeholder="عمران"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dictionary-roman">Roman Urdu</Label>
+              <Input
+                id="dictionary-roman"
+                value={form.roman}
+                onChange={(e) => setForm({ ...form, roman: e.target.value })}
+                placeholder="Imran"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dictionary-note">Note</Label>
+              <Input
+                id="dictionary-note"
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                placeholder="person, place, brand..."
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="dictionary-urdu-to-roman"
+                  checked={form.urduToRoman}
+                  onCheckedChange={(checked) => setForm({ ...form, urduToRoman: checked })}
+                />
+                <Label htmlFor="dictionary-urdu-to-roman">Urdu → Roman</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="dictionary-roman-to-urdu"
+                  checked={form.romanToUrdu}
+                  onCheckedChange={(checked) => setForm({ ...form, romanToUrdu: checked })}
+                />
+                <Label htmlFor="dictionary-roman-to-urdu">Roman → Urdu</Label>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {editingId && (
+                <Button variant="outline" size="sm" onClick={resetForm}>
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave} disabled={!canSave}>
+                {editingId ? <Pencil className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                {editingId ? "Update" : "Add"}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <CardTitle className="text-base">Entries</CardTitle>
+            <div className="flex flex-wrap gap-2">
+              <input ref={fileInputRef} type="file" accept=".json,.csv" className="hidden" onChange={handleImport} />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport("json")} disabled={!entries.length}>
+                <Download className="h-4 w-4 mr-2" />
+                JSON
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport("csv")} disabled={!entries.length}>
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Search entries..." />
+
+          {!loaded ? (
+            <p className="text-sm text-muted-foreground">Loading dictionary...</p>
+          ) : visibleEntries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {entries.length ? "No entries match the search." : "No entries yet. Add one above or import a file."}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Urdu</TableHead>
+                  <TableHead>Roman Urdu</TableHead>
+                  <TableHead>Directions</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleEntries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell dir="rtl" className="text-right">
+                      {entry.urdu}
+                    </TableCell>
+                    <TableCell>{entry.roman}</TableCell>
+                    <TableCell className="space-x-1">
+                      {entry.urduToRoman && <Badge variant="secondary">UR → EN</Badge>}
+                      {entry.romanToUrdu && <Badge variant="secondary">EN → UR</Badge>}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{entry.note}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(entry)} aria-label="Edit entry">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(entry)} aria-label="Delete entry">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
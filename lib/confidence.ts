@@ -0,0 +1,166 @@
+// Confidence scores: how far each token's output can be trusted, and the document score built from them
+
+import { isDigit } from "@/lib/digits"
+import { isPunctuation } from "@/lib/punctuation"
+import type { TransliterationToken } from "@/lib/transliteration"
+
+// Lexicon spellings were written by people; rule-based output tops out lower however plausible it looks
+const LEXICON_CONFIDENCE = 0.95
+export const RULE_BASED_CEILING = 0.75
+
+const WORD_START = "^"
+const WORD_END = "$"
+
+// Interpolation weights of the trigram, bigram and unigram character estimates
+const CONTEXT_WEIGHTS = [0.6, 0.3, 0.1]
+// Keeps characters never seen in a context possible, just unlikely
+const UNSEEN_PROBABILITY = 1e-4
+
+// Bits per character below the lexicon average at which a spelling counts as implausible
+const PLAUSIBILITY_SPREAD = 4
+
+/**
+ * Character trigram model of how words in one script are spelled, trained on lexicon words. Scores how
+ * plausible a new spelling is relative to the words it was trained on.
+ */
+export class CharacterModel {
+  private counts: Map<string, Map<string, number>> = new Map()
+  private totals: Map<string, number> = new Map()
+  private words: string[] = []
+  private typicalBits: number | null = null
+
+  // Maps a word to the characters that are scored (lowercased, marks removed)
+  constructor(private readonly normalize: (word: string) => string) {}
+
+  get size(): number {
+    return this.words.length
+  }
+
+  clear() {
+    this.counts.clear()
+    this.totals.clear()
+    this.words = []
+    this.typicalBits = null
+  }
+
+  train(word: string) {
+    const chars = this.toChars(word)
+    if (chars.length === 0) return
+
+    this.forEachTrigram(chars, (keys, char) =>
+      keys.forEach((key) => {
+        const bucket = this.counts.get(key) ?? new Map<string, number>()
+        bucket.set(char, (bucket.get(char) ?? 0) + 1)
+        this.counts.set(key, bucket)
+        this.totals.set(key, (this.totals.get(key) ?? 0) + 1)
+      }),
+    )
+    this.words.push(chars.join(""))
+    this.typicalBits = null
+  }
+
+  /**
+   * 0–1: 1 for a spelling at least as likely as an average lexicon word, falling to 0 as it gets
+   * PLAUSIBILITY_SPREAD bits per character less likely. Returns 1 when there is nothing to score.
+   */
+  plausibility(word: string): number {
+    const chars = this.toChars(word)
+    if (chars.length === 0 || this.words.length === 0) return 1
+
+    const shortfall = this.typicalBitsPerChar() - this.bitsPerChar(chars)
+    return Math.min(1, Math.max(0, 1 - shortfall / PLAUSIBILITY_SPREAD))
+  }
+
+  /**
+   * Average log2 probability per character of a spelling, as a negative number of bits; 0 when there is
+   * nothing to score. Comparable between models of different scripts or languages.
+   */
+  bitsPerCharacter(word: string): number {
+    const chars = this.toChars(word)
+    return chars.length === 0 || this.words.length === 0 ? 0 : this.bitsPerChar(chars)
+  }
+
+  private toChars(word: string): string[] {
+    return Array.from(this.normalize(word)).filter((char) => !/\s/.test(char) && !isPunctuation(char) && !isDigit(char))
+  }
+
+  private forEachTrigram(chars: string[], visit: (keys: string[], char: string) => void) {
+    const padded = [WORD_START, WORD_START, ...chars, WORD_END]
+    for (let i = 2; i < padded.length; i++) {
+      visit([`3|${padded[i - 2]}|${padded[i - 1]}`, `2|${padded[i - 1]}`, "1"], padded[i])
+    }
+  }
+
+  /**
+   * Average log2 probability per character (word end included), as a negative number of bits.
+   */
+  private bitsPerChar(chars: string[]): number {
+    let bits = 0
+    this.forEachTrigram(chars, (keys, char) => {
+      let probability = 0
+      let weight = 0
+      keys.forEach((key, level) => {
+        const total = this.totals.get(key)
+        if (!total) return
+        probability += CONTEXT_WEIGHTS[level] * ((this.counts.get(key)!.get(char) ?? 0) / total)
+        weight += CONTEXT_WEIGHTS[level]
+      })
+      bits += Math.log2((weight ? probability / weight : 0) + UNSEEN_PROBABILITY)
+    })
+    return bits / (chars.length + 1)
+  }
+
+  private typicalBitsPerChar(): number {
+    if (this.typicalBits === null) {
+      const sum = this.words.reduce((total, word) => total + this.bitsPerChar(Array.from(word)), 0)
+      this.typicalBits = sum / this.words.length
+    }
+    return this.typicalBits
+  }
+}
+
+/**
+ * 0–1 confidence in one token's output. Rule-based output is scored by how plausible its spelling is in
+ * the target script.
+ */
+export function tokenConfidence(
+  token: Omit<TransliterationToken, "output" | "confidence">,
+  target: CharacterModel,
+): number {
+  switch (token.method) {
+    // The user wrote these spellings for exactly this word
+    case "user-dictionary":
+      return 1
+    case "phrase-lexicon":
+    case "word-lexicon":
+    case "loanword-lexicon":
+      return LEXICON_CONFIDENCE
+    case "fuzzy-lexicon":
+      return token.fuzzyMatch?.confidence ?? 0
+    case "rule-based":
+      return ruleBasedConfidence(token.outputText, target)
+    // Left as written, so only as right as the call that the word is English
+    case "english":
+      return token.language?.confidence ?? 1
+    case "untransliterated":
+      return 0
+    default:
+      return 1
+  }
+}
+
+/**
+ * 0–1 confidence in a rule-based spelling, from how plausible it is in the target script.
+ */
+export function ruleBasedConfidence(text: string, target: CharacterModel): number {
+  return RULE_BASED_CEILING * target.plausibility(text)
+}
+
+/**
+ * Average confidence of the word tokens; punctuation does not count. 1 for a text without words.
+ */
+export function documentConfidence(tokens: TransliterationToken[]): number {
+  const words = tokens.filter((token) => token.method !== "punctuation")
+  if (words.length === 0) return 1
+  return words.reduce((sum, token) => sum + token.confidence, 0) / words.length
+}
@@ -0,0 +1,97 @@
+// Urdu harakat (short-vowel and gemination marks) and how they read in Roman Urdu
+
+export const ZABAR = "\u064E"
+export const ZER = "\u0650"
+export const PESH = "\u064F"
+export const SHADDA = "\u0651"
+export const JAZM = "\u0652"
+export const KHARI_ZABAR = "\u0670"
+export const FATHATAN = "\u064B"
+export const DAMMATAN = "\u064C"
+export const KASRATAN = "\u064D"
+
+const HARAKAT_CHAR = /^[\u064B-\u0652\u0670]$/
+const HARAKAT_RUN = /[\u064B-\u0652\u0670]+/g
+
+const MARK_VOWELS: Record<string, string> = {
+  [ZABAR]: "a",
+  [ZER]: "i",
+  [PESH]: "u",
+  [FATHATAN]: "an",
+  [DAMMATAN]: "un",
+  [KASRATAN]: "in",
+  [KHARI_ZABAR]: "aa",
+  [JAZM]: "",
+}
+
+// Canonical order when normalizing: shadda first, then the vowel mark
+const MARK_ORDER = [SHADDA, ZABAR, ZER, PESH, FATHATAN, DAMMATAN, KASRATAN, KHARI_ZABAR, JAZM]
+
+// Marks that stand for a letter rather than a short vowel: a doubled consonant, a final n, a long a
+const LETTER_MARKS = [SHADDA, FATHATAN, DAMMATAN, KASRATAN, KHARI_ZABAR]
+
+// Short Roman vowels written as marks when emitting vocalized Urdu
+export const VOWEL_MARKS: Record<string, string> = {
+  a: ZABAR,
+  i: ZER,
+  u: PESH,
+}
+
+export interface HarakatReading {
+  // Short vowel spoken after the letter, or null when only a shadda is present
+  vowel: string | null
+  geminate: boolean
+  isJazm: boolean
+  isKhariZabar: boolean
+}
+
+/**
+ * Separates base letters from the marks written on them; `marks[i]` holds the marks of `letters[i]`.
+ */
+export function splitHarakat(word: string): { letters: string[]; marks: string[] } {
+  const letters: string[] = []
+  const marks: string[] = []
+
+  for (const char of Array.from(word)) {
+    if (!HARAKAT_CHAR.test(char)) {
+      letters.push(char)
+      marks.push("")
+    } else if (letters.length > 0) {
+      marks[letters.length - 1] += char
+    }
+  }
+
+  return { letters, marks }
+}
+
+export function readHarakat(marks: string): HarakatReading | null {
+  if (!marks) return null
+
+  const vowelMark = Array.from(marks).find((mark) => mark in MARK_VOWELS)
+  return {
+    vowel: vowelMark !== undefined ? MARK_VOWELS[vowelMark] : null,
+    geminate: marks.includes(SHADDA),
+    isJazm: vowelMark === JAZM,
+    isKhariZabar: vowelMark === KHARI_ZABAR,
+  }
+}
+
+export function stripHarakat(text: string): string {
+  return text.replace(HARAKAT_RUN, "")
+}
+
+/**
+ * Drops the short-vowel marks but keeps the ones the bare letters cannot recover (quwwat, foran, Musa).
+ */
+export function stripShortVowels(text: string): string {
+  return text.replace(HARAKAT_RUN, (marks) =>
+    MARK_ORDER.filter((mark) => LETTER_MARKS.includes(mark) && marks.includes(mark)).join(""),
+  )
+}
+
+/**
+ * Puts stacked marks into a canonical order (shadda before the vowel) and drops repeated marks.
+ */
+export function canonicalizeHarakat(text: string): string {
+  return text.replace(HARAKAT_RUN, (marks) => MARK_ORDER.filter((mark) => marks.includes(mark)).join(""))
+}
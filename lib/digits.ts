@@ -0,0 +1,62 @@
+// Digit blocks used in Urdu text and conversion between them and ASCII digits
+
+export type DigitConversion = "auto" | "arabic-to-english" | "preserve"
+
+const ASCII_DIGITS = "0123456789"
+// Arabic-Indic digits (U+0660), used in Arabic text and some Urdu sources
+const ARABIC_INDIC_DIGITS = "٠١٢٣٤٥٦٧٨٩"
+// Extended Arabic-Indic digits (U+06F0), the ones Urdu keyboards produce
+const URDU_DIGITS = "۰۱۲۳۴۵۶۷۸۹"
+
+const ARABIC_THOUSANDS_SEPARATOR = "٬"
+const ARABIC_DECIMAL_SEPARATOR = "٫"
+
+const DIGIT_CLASS = "0-9\\u0660-\\u0669\\u06F0-\\u06F9"
+const DIGIT_CHAR = new RegExp(`^[${DIGIT_CLASS}]$`)
+
+// A number with optional Western or lakh/crore grouping (1,00,000) and an optional decimal part
+const NUMBER_PATTERN = new RegExp(`^[${DIGIT_CLASS}]+(?:[,\\u066C][${DIGIT_CLASS}]+)*(?:[.\\u066B][${DIGIT_CLASS}]+)?$`)
+
+// Eastern digits and separators, which are not Urdu letters even though they sit in the Arabic block
+export const EASTERN_NUMBER_CHARS = /[٠-٩٫٬۰-۹]/g
+
+export function isNumber(word: string): boolean {
+  return NUMBER_PATTERN.test(word)
+}
+
+export function isDigit(char: string): boolean {
+  return DIGIT_CHAR.test(char)
+}
+
+/**
+ * Converts both Eastern digit blocks to ASCII digits.
+ */
+export function toAsciiDigits(text: string): string {
+  return text.replace(/[٠-٩۰-۹]/g, (digit) => {
+    const index = ARABIC_INDIC_DIGITS.indexOf(digit)
+    return ASCII_DIGITS[index >= 0 ? index : URDU_DIGITS.indexOf(digit)]
+  })
+}
+
+/**
+ * Converts ASCII and Arabic-Indic digits to Urdu (Extended Arabic-Indic) digits.
+ */
+export function toUrduDigits(text: string): string {
+  return toAsciiDigits(text).replace(/[0-9]/g, (digit) => URDU_DIGITS[Number(digit)])
+}
+
+/**
+ * Writes a number in ASCII form, keeping its grouping (1,00,000) and decimal point.
+ */
+export function formatNumberAscii(number: string): string {
+  return toAsciiDigits(number)
+    .replace(/\u066C/g, ",")
+    .replace(/\u066B/g, ".")
+}
+
+/**
+ * Writes a number with Urdu digits and Arabic thousands/decimal separators so the grouping survives a round trip.
+ */
+export function formatNumberUrdu(number: string): string {
+  return toUrduDigits(number).replace(/,/g, ARABIC_THOUSANDS_SEPARATOR).replace(/\./g, ARABIC_DECIMAL_SEPARATOR)
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { transliterateEnglishWord } from "@/lib/english-g2p"
+
+describe("transliterateEnglishWord", () => {
+  it("writes function words the way Urdu spells them", () => {
+    expect(transliterateEnglishWord("the")).toBe("دی")
+    expect(transliterateEnglishWord("The")).toBe("دی")
+    expect(transliterateEnglishWord("this")).toBe("دس")
+    expect(transliterateEnglishWord("they")).toBe("دے")
+    expect(transliterateEnglishWord("is")).toBe("از")
+    expect(transliterateEnglishWord("was")).toBe("واز")
+    expect(transliterateEnglishWord("of")).toBe("آف")
+    expect(transliterateEnglishWord("one")).toBe("ون")
+    expect(transliterateEnglishWord("who")).toBe("ہو")
+  })
+
+  it("writes I and am as words, not letter names", () => {
+    expect(transliterateEnglishWord("I")).toBe("آئی")
+    expect(transliterateEnglishWord("am")).toBe("ایم")
+  })
+
+  it("writes common words the rules cannot read", () => {
+    expect(transliterateEnglishWord("psychology")).toBe("سائیکالوجی")
+    expect(transliterateEnglishWord("would")).toBe("وڈ")
+    expect(transliterateEnglishWord("Mr")).toBe("مسٹر")
+  })
+
+  it("spells out acronyms, including ones that are also common words", () => {
+    expect(transliterateEnglishWord("US")).toBe("یو ایس")
+    expect(transliterateEnglishWord("IT")).toBe("آئی ٹی")
+  })
+
+  it("reads other words by their spelling", () => {
+    expect(transliterateEnglishWord("station")).toBe("اسٹیشن")
+    expect(transliterateEnglishWord("time")).toBe("ٹائم")
+    expect(transliterateEnglishWord("doctor")).toBe("ڈاکٹر")
+  })
+})
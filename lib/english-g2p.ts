@@ -0,0 +1,419 @@
+// English spelling → Urdu script, for English words that are not in the loanword list
+//
+// A word is read as sound units (consonants and consonant digraphs, vowel letters and vowel digraphs, and
+// endings such as -tion) and each unit is written the way Urdu writes English loanwords: t and d as the
+// retroflex ٹ and ڈ, short vowels mostly unwritten, long vowels and diphthongs with و and ی, and a
+// word-initial vowel or s-cluster carried by alif (station → اسٹیشن). Whether a vowel letter is long
+// depends on the syllable: it is long before a single consonant and another vowel, or before a consonant
+// and a silent final e (mobile → موبائل), and short before two or more consonants.
+
+interface SoundUnit {
+  text: string
+  kind: "consonant" | "vowel" | "syllable"
+  // Digraphs like "ck" that close the syllable before them as two consonants would
+  closes?: boolean
+}
+
+// Endings that are a consonant and a vowel in one
+const SYLLABLES: Record<string, string> = {
+  ssion: "شن",
+  tion: "شن",
+  sion: "ژن",
+  ture: "چر",
+}
+
+const CONSONANT_DIGRAPHS = ["tch", "dge", "sch", "ch", "sh", "th", "ph", "ck", "ng", "qu", "wh", "gh"]
+const CLOSING_UNITS = new Set(["tch", "dge", "ck", "ng", "x"])
+
+const CONSONANTS: Record<string, string> = {
+  b: "ب",
+  c: "ک",
+  d: "ڈ",
+  f: "ف",
+  g: "گ",
+  h: "ہ",
+  j: "ج",
+  k: "ک",
+  l: "ل",
+  m: "م",
+  n: "ن",
+  p: "پ",
+  q: "ک",
+  r: "ر",
+  s: "س",
+  t: "ٹ",
+  v: "و",
+  w: "و",
+  x: "کس",
+  y: "ی",
+  z: "ز",
+  tch: "چ",
+  dge: "ج",
+  sch: "سک",
+  ch: "چ",
+  sh: "ش",
+  th: "تھ",
+  ph: "ف",
+  ck: "ک",
+  ng: "نگ",
+  qu: "کو",
+  wh: "و",
+  gh: "گ",
+}
+
+// Consonants after which a final s sounds as z (cars → کارز)
+const VOICED = new Set(["b", "d", "g", "l", "m", "n", "r", "v", "ng", "dge"])
+
+// Vowel digraph spellings: within the word, at its start, and at its end
+const VOWEL_DIGRAPHS: Record<string, [medial: string, initial: string, final: string]> = {
+  igh: ["ائ", "آئ", "ائی"],
+  ee: ["ی", "ای", "ی"],
+  ea: ["ی", "ای", "یا"],
+  ie: ["ی", "ای", "ی"],
+  ei: ["ی", "ای", "ی"],
+  ey: ["ی", "ای", "ی"],
+  ai: ["ی", "ای", "ے"],
+  ay: ["ی", "اے", "ے"],
+  oo: ["و", "او", "و"],
+  oa: ["و", "او", "و"],
+  ui: ["و", "او", "و"],
+  ou: ["اؤ", "آؤ", "و"],
+  ow: ["اؤ", "آؤ", "و"],
+  oi: ["وائ", "آئ", "وائی"],
+  oy: ["وائ", "آئ", "وائے"],
+  au: ["ا", "آ", "ا"],
+  aw: ["ا", "آ", "ا"],
+  eu: ["یو", "یو", "یو"],
+  ew: ["یو", "یو", "یو"],
+  ue: ["یو", "یو", "یو"],
+}
+
+// Single vowel letters by syllable, as [within the word, at its start]
+const LONG_VOWELS: Record<string, [string, string]> = {
+  a: ["ی", "ای"],
+  e: ["ی", "ای"],
+  i: ["ی", "آئ"],
+  o: ["و", "او"],
+  u: ["یو", "یو"],
+  y: ["ائ", "آئ"],
+}
+// Before consonant + silent e, where i and y are diphthongs (time → ٹائم)
+const MAGIC_E_VOWELS: Record<string, [string, string]> = { ...LONG_VOWELS, i: ["ائ", "آئ"] }
+const SHORT_VOWELS: Record<string, [string, string]> = {
+  a: ["ی", "ای"],
+  e: ["ی", "ای"],
+  i: ["", "ا"],
+  o: ["ا", "آ"],
+  u: ["", "ا"],
+  y: ["", ""],
+}
+// Before an r that closes the syllable (car → کار, turn → ٹرن)
+const R_COLORED_VOWELS: Record<string, [string, string]> = {
+  a: ["ا", "آ"],
+  o: ["ا", "آ"],
+  e: ["", "ا"],
+  i: ["", "ا"],
+  u: ["", "ا"],
+  y: ["", "ا"],
+}
+const FINAL_VOWELS: Record<string, [string, string]> = {
+  a: ["ا", "اے"],
+  e: ["ی", "ای"],
+  i: ["ی", "آئی"],
+  o: ["و", "او"],
+  u: ["و", "یو"],
+  y: ["ی", "وائی"],
+}
+
+// Unstressed vowels of a last syllable closed by one of these consonants are not written (doctor → ڈاکٹر,
+// hotel → ہوٹل)
+const REDUCED_BEFORE: Record<string, string> = { a: "lnmr", e: "lnmtdsr", o: "nrm" }
+
+// Urdu names of the letters, for acronyms (BBC → بی بی سی)
+const LETTER_NAMES: Record<string, string> = {
+  a: "اے",
+  b: "بی",
+  c: "سی",
+  d: "ڈی",
+  e: "ای",
+  f: "ایف",
+  g: "جی",
+  h: "ایچ",
+  i: "آئی",
+  j: "جے",
+  k: "کے",
+  l: "ایل",
+  m: "ایم",
+  n: "این",
+  o: "او",
+  p: "پی",
+  q: "کیو",
+  r: "آر",
+  s: "ایس",
+  t: "ٹی",
+  u: "یو",
+  v: "وی",
+  w: "ڈبلیو",
+  x: "ایکس",
+  y: "وائی",
+  z: "زیڈ",
+}
+
+// Function words and common words the spelling rules cannot read, with the spellings Urdu uses for them.
+// Checked before the rules; th in these is the voiced sound Urdu writes as د (the → دی).
+const COMMON_WORDS: Record<string, string> = {
+  a: "اے",
+  am: "ایم",
+  an: "این",
+  and: "اینڈ",
+  are: "آر",
+  as: "ایز",
+  be: "بی",
+  been: "بین",
+  brother: "برادر",
+  could: "کڈ",
+  do: "ڈو",
+  does: "ڈز",
+  dr: "ڈاکٹر",
+  father: "فادر",
+  for: "فار",
+  friend: "فرینڈ",
+  from: "فرام",
+  has: "ہیز",
+  have: "ہیو",
+  he: "ہی",
+  i: "آئی",
+  is: "از",
+  it: "اٹ",
+  many: "مینی",
+  me: "می",
+  mother: "مدر",
+  mr: "مسٹر",
+  mrs: "مسز",
+  my: "مائی",
+  of: "آف",
+  one: "ون",
+  other: "ادر",
+  our: "آور",
+  people: "پیپل",
+  psychology: "سائیکالوجی",
+  said: "سیڈ",
+  should: "شڈ",
+  than: "دین",
+  the: "دی",
+  their: "دیئر",
+  them: "دیم",
+  then: "دین",
+  there: "دیئر",
+  these: "دیز",
+  they: "دے",
+  this: "دس",
+  those: "دوز",
+  to: "ٹو",
+  two: "ٹو",
+  was: "واز",
+  we: "وی",
+  were: "ور",
+  what: "واٹ",
+  where: "ویئر",
+  which: "وچ",
+  who: "ہو",
+  whose: "ہوز",
+  with: "ود",
+  woman: "وومن",
+  women: "ویمن",
+  would: "وڈ",
+  you: "یو",
+  your: "یور",
+}
+
+const isVowelLetter = (char: string | undefined) => !!char && "aeiou".includes(char)
+
+function toSoundUnits(word: string): SoundUnit[] {
+  const units: SoundUnit[] = []
+
+  for (let i = 0; i < word.length;) {
+    const rest = word.slice(i)
+    const next = (length: number) => word[i + length]
+
+    const syllable = Object.keys(SYLLABLES).find((ending) => rest.startsWith(ending))
+    const vowel = Object.keys(VOWEL_DIGRAPHS).find(
+      (digraph) =>
+        rest.startsWith(digraph) &&
+        // "ow" and "ue" before a vowel are a vowel and a consonant (power), or two vowels
+        !(digraph === "ow" && isVowelLetter(next(2))) &&
+        !(digraph === "ue" && i + 2 < word.length && !/^[sd]$/.test(word.slice(i + 2))),
+    )
+    const consonant = CONSONANT_DIGRAPHS.find(
+      (digraph) =>
+        rest.startsWith(digraph) &&
+        // "ng" before a vowel is n + g (finger, engine)
+        !(digraph === "ng" && isVowelLetter(next(2))),
+    )
+
+    let unit: SoundUnit
+    if (syllable) unit = { text: syllable, kind: "syllable" }
+    else if (vowel) unit = { text: vowel, kind: "vowel" }
+    else if (consonant) unit = { text: consonant, kind: "consonant" }
+    else if (rest[0] === "y") {
+      // y is a consonant before a vowel at the start of a word or between vowels, and a vowel otherwise
+      const consonantal = isVowelLetter(next(1)) && (i === 0 || isVowelLetter(word[i - 1]))
+      unit = { text: "y", kind: consonantal ? "consonant" : "vowel" }
+    } else {
+      unit = { text: rest[0], kind: isVowelLetter(rest[0]) ? "vowel" : "consonant" }
+    }
+
+    if (CLOSING_UNITS.has(unit.text)) unit.closes = true
+    units.push(unit)
+    i += unit.text.length
+  }
+
+  return units
+}
+
+function writeUnits(units: SoundUnit[]): string {
+  const last = units.length - 1
+  const firstVowel = units.findIndex((unit) => unit.kind !== "consonant")
+  const hasEarlierVowel = (index: number) => firstVowel >= 0 && firstVowel < index
+  const textAt = (index: number) => units[index]?.text ?? ""
+  const isVowel = (index: number) => units[index]?.kind === "vowel"
+  // Only a plural or past-tense ending may follow
+  const endsAt = (index: number) => index === last || (index === last - 1 && /^[sd]$/.test(textAt(last)))
+
+  // A final e after another vowel is silent (game → گیم), and so is one before a plural or -d ending
+  const isSilentE = (index: number) => textAt(index) === "e" && endsAt(index) && hasEarlierVowel(index)
+
+  const writeVowel = (index: number): string => {
+    const vowel = textAt(index)
+    const initial = index === 0
+    const pick = ([medial, start]: [string, string]) => (initial ? start : medial)
+    const previous = textAt(index - 1)
+    // Long u loses its y-glide after r, l and j (rule → رول, June → جون)
+    const pickLong = (table: Record<string, [string, string]>) =>
+      vowel === "u" && /^[rlj]$/.test(previous) ? "و" : pick(table[vowel])
+
+    if (vowel.length > 1) {
+      const [medial, start, final] = VOWEL_DIGRAPHS[vowel]
+      // After r, l and j in the first syllable this is a plain long u (blue → بلو, but value → ویلیو)
+      if (/^(eu|ew|ue)$/.test(vowel) && /^[rlj]$/.test(previous) && !hasEarlierVowel(index)) return "و"
+      return initial ? start : index === last ? final : medial
+    }
+    if (isSilentE(index)) return ""
+
+    const following = textAt(index + 1)
+    const reduced =
+      hasEarlierVowel(index) &&
+      units[index + 1]?.kind === "consonant" &&
+      REDUCED_BEFORE[vowel]?.includes(following) &&
+      // -ent, -ant and -ons count as closed by their n (moment → مومنٹ)
+      (endsAt(index + 1) || (following === "n" && /^[tds]$/.test(textAt(index + 2)) && endsAt(index + 2)))
+    if (reduced) return ""
+
+    // Consonants up to the next vowel sound; endings like -tion start with one
+    let consonants = 0
+    let next = index + 1
+    while (units[next]?.kind === "consonant") consonants += units[next++].closes ? 2 : 1
+    if (units[next]?.kind === "syllable") consonants++
+
+    if (consonants === 1 && isSilentE(next)) {
+      // Unstressed -age and -ice keep a short vowel (package → پیکج, office → آفس)
+      if (hasEarlierVowel(index) && ((vowel === "a" && following === "g") || (vowel === "i" && following === "c"))) {
+        return ""
+      }
+      return pickLong(MAGIC_E_VOWELS)
+    }
+    if (following === "r" && (index + 2 > last || !isVowel(index + 2))) return pick(R_COLORED_VOWELS[vowel])
+    if (index === last) {
+      // A word's only vowel at its end is long (my → مائی)
+      if (vowel === "y" && !hasEarlierVowel(index)) return "ائی"
+      return pick(FINAL_VOWELS[vowel])
+    }
+    // a after w, and a before l + consonant, sound as in "water" and "call"
+    if (vowel === "a" && !initial && (/^(w|wh|qu)$/.test(previous) || (following === "l" && consonants > 1))) {
+      return "ا"
+    }
+
+    const open = consonants <= 1 && next <= last
+    return open ? pickLong(LONG_VOWELS) : pick(SHORT_VOWELS[vowel])
+  }
+
+  const writeConsonant = (index: number): string => {
+    const consonant = textAt(index)
+    const previous = textAt(index - 1)
+    const following = textAt(index + 1)
+    const beforeSoftVowel = /^[eiy]/.test(following) && units[index + 1]?.kind !== "consonant"
+
+    switch (consonant) {
+      case "c":
+        return beforeSoftVowel ? "س" : "ک"
+      case "g":
+        return beforeSoftVowel ? "ج" : "گ"
+      case "gh":
+        return index === 0 ? "گ" : ""
+      case "x":
+        return index === 0 ? "ز" : "کس"
+      case "h":
+        return isVowel(index - 1) && (index === last || !isVowel(index + 1)) ? "" : "ہ"
+      case "k":
+        return index === 0 && following === "n" ? "" : "ک"
+      case "w":
+        return index === 0 && following === "r" ? "" : "و"
+      case "b":
+        return index === last && previous === "m" ? "" : "ب"
+      case "s":
+      case "sch": {
+        // Urdu puts alif before an initial s-cluster (school → اسکول)
+        if (index === 0 && (consonant === "sch" || units[1]?.kind === "consonant")) return "ا" + CONSONANTS[consonant]
+        if (consonant === "sch") return CONSONANTS.sch
+        if (endsAt(index) && index > 0) {
+          // Skip a silent e to the sound before it (games → گیمز)
+          const sounding = isSilentE(index - 1) ? index - 2 : index - 1
+          const voiced =
+            units[sounding]?.kind === "consonant" ? VOICED.has(textAt(sounding)) : textAt(sounding).length > 1
+          return voiced ? "ز" : "س"
+        }
+        return isVowel(index - 1) && isVowel(index + 1) && !isSilentE(index + 1) ? "ز" : "س"
+      }
+      default:
+        return CONSONANTS[consonant] ?? consonant
+    }
+  }
+
+  let output = ""
+  let previous = ""
+  units.forEach((unit, index) => {
+    const written =
+      unit.kind === "syllable"
+        ? unit.text === "sion" && !isVowel(index - 1)
+          ? "شن"
+          : SYLLABLES[unit.text]
+        : unit.kind === "vowel"
+          ? writeVowel(index)
+          : writeConsonant(index)
+
+    // Doubled consonants are written once (cancelled → کینسلڈ)
+    if (!(unit.kind === "consonant" && unit.text === textAt(index - 1) && written === previous)) output += written
+    previous = written
+  })
+  return output
+}
+
+/**
+ * Writes an English word in Urdu script: common words as Urdu spells them, others by their spelling. Short
+ * all-capital words are taken for acronyms and spelled out letter by letter (OK → او کے). Characters other
+ * than letters are kept.
+ */
+export function transliterateEnglishWord(word: string): string {
+  if (/^[A-Z]{2,4}$/.test(word)) {
+    return Array.from(word.toLowerCase(), (letter) => LETTER_NAMES[letter]).join(" ")
+  }
+
+  const common = COMMON_WORDS[word.toLowerCase()]
+  if (common) return common
+
+  return word
+    .normalize("NFD")
+    .replace(/[\u0300-\u036F']/g, "")
+    .toLowerCase()
+    .replace(/[a-z]+/g, (letters) => writeUnits(toSoundUnits(letters)))
+}
@@ -0,0 +1,28 @@
+// English loanwords and the spellings Urdu has settled on for them (meeting → میٹنگ, doctor → ڈاکٹر)
+
+export interface EnglishLoanword {
+  english: string
+  urdu_script: string
+}
+
+export const ENGLISH_LEXICON_PATH = "/lexicons/english.json"
+
+let loanwordRequest: Promise<EnglishLoanword[]> | null = null
+
+/**
+ * The loanword list. Fetched once; a failed request is retried on the next call.
+ */
+export function loadEnglishLoanwords(): Promise<EnglishLoanword[]> {
+  if (!loanwordRequest) {
+    loanwordRequest = fetch(ENGLISH_LEXICON_PATH)
+      .then((response) => {
+        if (!response.ok) throw new Error(`English loanword list request failed with status ${response.status}`)
+        return response.json() as Promise<EnglishLoanword[]>
+      })
+      .catch((error) => {
+        loanwordRequest = null
+        throw error
+      })
+  }
+  return loanwordRequest
+}
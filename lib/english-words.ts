@@ -0,0 +1,167 @@
+// Common English words, for telling English apart from Roman Urdu written in the same letters
+//
+// Words that are also everyday Roman Urdu spellings ("the" for تھے, "is" for اس, "say" for سے) are not in
+// COMMON_ENGLISH_WORDS but in AMBIGUOUS_ENGLISH_WORDS, and only count as English among other English words.
+
+export const COMMON_ENGLISH_WORDS = new Set([
+  "about",
+  "after",
+  "again",
+  "all",
+  "also",
+  "am",
+  "an",
+  "and",
+  "any",
+  "as",
+  "at",
+  "because",
+  "been",
+  "before",
+  "being",
+  "between",
+  "both",
+  "by",
+  "can",
+  "could",
+  "did",
+  "does",
+  "doing",
+  "down",
+  "during",
+  "each",
+  "every",
+  "few",
+  "for",
+  "from",
+  "get",
+  "good",
+  "great",
+  "has",
+  "have",
+  "having",
+  "here",
+  "him",
+  "his",
+  "how",
+  "i",
+  "if",
+  "into",
+  "it",
+  "its",
+  "just",
+  "know",
+  "like",
+  "make",
+  "many",
+  "more",
+  "most",
+  "much",
+  "must",
+  "my",
+  "new",
+  "no",
+  "not",
+  "now",
+  "of",
+  "off",
+  "on",
+  "once",
+  "one",
+  "only",
+  "or",
+  "other",
+  "our",
+  "out",
+  "over",
+  "own",
+  "people",
+  "please",
+  "same",
+  "she",
+  "should",
+  "some",
+  "such",
+  "take",
+  "than",
+  "thank",
+  "thanks",
+  "that",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "thing",
+  "think",
+  "this",
+  "those",
+  "through",
+  "time",
+  "today",
+  "tomorrow",
+  "too",
+  "under",
+  "until",
+  "up",
+  "very",
+  "was",
+  "way",
+  "we",
+  "well",
+  "were",
+  "what",
+  "when",
+  "where",
+  "which",
+  "while",
+  "who",
+  "whom",
+  "why",
+  "will",
+  "with",
+  "work",
+  "would",
+  "yes",
+  "yesterday",
+  "you",
+  "your",
+])
+
+export const AMBIGUOUS_ENGLISH_WORDS = new Set([
+  "a",
+  "are",
+  "band",
+  "bat",
+  "be",
+  "bed",
+  "bus",
+  "but",
+  "chat",
+  "do",
+  "fun",
+  "gate",
+  "had",
+  "he",
+  "her",
+  "hi",
+  "hum",
+  "in",
+  "is",
+  "main",
+  "may",
+  "me",
+  "par",
+  "post",
+  "say",
+  "sir",
+  "so",
+  "the",
+  "to",
+  "us",
+])
+
+export function isCommonEnglishWord(word: string): boolean {
+  return COMMON_ENGLISH_WORDS.has(word.toLowerCase())
+}
@@ -5,29 +5,41 @@ export interface FileValidationResult {
 
 export const SUPPORTED_FILE_TYPES = [".txt", ".md", ".csv", ".text", ".pdf", ".docx"]
 export const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+// Plain-text files are streamed rather than read whole, so they may be much larger
+export const STREAMED_FILE_TYPES = [".txt", ".md", ".csv", ".text"]
+export const MAX_STREAMED_FILE_SIZE = 1024 * 1024 * 1024 // 1GB
+
+export function isStreamedFile(file: File): boolean {
+  return STREAMED_FILE_TYPES.includes("." + file.name.split(".").pop()?.toLowerCase())
+}
 
 export function validateFile(file: File): FileValidationResult {
-  // Check file size
-  if (file.size > MAX_FILE_SIZE) {
+  // Check file type
+  const fileExtension = "." + file.name.split(".").pop()?.toLowerCase()
+  if (!SUPPORTED_FILE_TYPES.includes(fileExtension)) {
     return {
       isValid: false,
-      error: `File size exceeds ${MAX_FILE_SIZE / (1024 * 1024)}MB limit`,
+      error: `Unsupported file type. Supported types: ${SUPPORTED_FILE_TYPES.join(", ")}`,
     }
   }
 
-  // Check file type
-  const fileExtension = "." + file.name.split(".").pop()?.toLowerCase()
-  if (!SUPPORTED_FILE_TYPES.includes(fileExtension)) {
+  // Check file size
+  const maxSize = isStreamedFile(file) ? MAX_STREAMED_FILE_SIZE : MAX_FILE_SIZE
+  if (file.size > maxSize) {
     return {
       isValid: false,
-      error: `Unsupported file type. Supported types: ${SUPPORTED_FILE_TYPES.join(", ")}`,
+      error: `File size exceeds ${formatFileSize(maxSize)} limit`,
     }
   }
 
   return { isValid: true }
 }
 
-export function createDownloadBlob(content: string, filename: string, fileType: "txt" | "pdf" | "docx" = "txt"): void {
+export function createDownloadBlob(
+  content: string | Blob,
+  filename: string,
+  fileType: "txt" | "pdf" | "docx" = "txt",
+): void {
   let blob: Blob
   let downloadName: string
 
@@ -0,0 +1,163 @@
+// Fuzzy lookup of Roman Urdu spelling variants (kia/kiya → kya, hay/he → hai) against lexicon keys
+
+import { RULE_BASED_CEILING } from "@/lib/confidence"
+
+export interface FuzzyMatch {
+  // Lexicon key the word was matched to
+  key: string
+  // Edit distance between the normalized spellings; 0 when only the spelling conventions differ
+  distance: number
+  // 0–1, how likely the match is the same word
+  confidence: number
+}
+
+// Spelling conventions that vary between writers, applied in order before comparison
+const SPELLING_CLASSES: [RegExp, string][] = [
+  [/ee/g, "i"],
+  [/oo/g, "u"],
+  [/(ai|ay|ae|ei|ey)/g, "e"],
+  [/w/g, "v"],
+  [/q/g, "k"],
+  [/c(?!h)/g, "k"],
+  [/iy?a/g, "ya"],
+  // A final h after a vowel is silent (yeh, woh)
+  [/([aeiou])h$/, "$1"],
+  // Doubled consonants (achha/acha, muhabbat/mohabat); vowel length is kept apart, baat is not bat
+  [/([^aeiou])\1+/g, "$1"],
+]
+
+// The nasal n of a final ein or ain is often left out (mein/me), so spellings are compared without it.
+// Among equally likely words the one that agrees on the n wins (hai is hay, not hain).
+const NASAL_ENDING = /en$/
+
+const VOWELS = /[aeiou]/g
+
+// Confidence of a match whose spellings differ only by convention. A guessed word is trusted no more than
+// rule-based output, so a match only wins over rule output that looks less plausible.
+const NORMALIZED_CONFIDENCE = RULE_BASED_CEILING
+
+// Shorter normalized words only match exactly: one edit turns "ka" into "ki"
+const MIN_EDIT_LENGTH = 4
+
+export function normalizeRomanSpelling(word: string): string {
+  return SPELLING_CLASSES.reduce((normalized, [pattern, replacement]) => normalized.replace(pattern, replacement), word)
+}
+
+function withoutNasal(normalized: string): string {
+  return normalized.replace(NASAL_ENDING, "e")
+}
+
+/**
+ * Consonant skeleton of a normalized spelling, keeping a leading vowel. Words are only compared
+ * against lexicon keys with the same skeleton.
+ */
+function vowelSkeleton(normalized: string): string {
+  return normalized[0] + normalized.slice(1).replace(VOWELS, "")
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and adjacent transpositions.
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  )
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+
+  return d[a.length][b.length]
+}
+
+// Lexicographic order of two rankings, lowest first
+function compareRanks(a: number[], b: number[]): number {
+  const index = a.findIndex((value, i) => value !== b[i])
+  return index === -1 ? 0 : a[index] - b[index]
+}
+
+function maxDistance(length: number): number {
+  if (length < MIN_EDIT_LENGTH) return 0
+  return length < 7 ? 1 : 2
+}
+
+// A lexicon word reachable from one normalized spelling
+interface FuzzyCandidate {
+  // Lexicon keys that spell the word, in the order they were added
+  keys: string[]
+  // Summed weight of the lexicon entries behind those keys
+  frequency: number
+}
+
+export class FuzzyIndex {
+  // Skeleton -> normalized spelling -> lexicon word -> its keys and frequency
+  private buckets: Map<string, Map<string, Map<string, FuzzyCandidate>>> = new Map()
+
+  clear() {
+    this.buckets.clear()
+  }
+
+  /**
+   * Indexes one lexicon entry: `key` is its lowercase Roman spelling and `word` what it stands for.
+   */
+  add(key: string, word: string, weight = 1) {
+    if (!/^[a-z]+$/.test(key)) return
+
+    const normalized = normalizeRomanSpelling(key)
+    const skeleton = vowelSkeleton(withoutNasal(normalized))
+    const bucket = this.buckets.get(skeleton) ?? new Map<string, Map<string, FuzzyCandidate>>()
+    const words = bucket.get(normalized) ?? new Map<string, FuzzyCandidate>()
+    const candidate = words.get(word) ?? { keys: [], frequency: 0 }
+
+    if (!candidate.keys.includes(key)) candidate.keys.push(key)
+    candidate.frequency += weight
+    words.set(word, candidate)
+    bucket.set(normalized, words)
+    this.buckets.set(skeleton, bucket)
+  }
+
+  /**
+   * Closest lexicon key for a lowercase word that is not itself a key, or null when nothing is within
+   * the edit threshold. Among equally close spellings the word the lexicon lists most often wins (he is
+   * hay rather than hey), then the spelling that agrees on a nasal n, then the key closest to the word as typed.
+   */
+  match(word: string): FuzzyMatch | null {
+    if (!/^[a-z]+$/.test(word)) return null
+
+    const normalized = normalizeRomanSpelling(word)
+    const comparable = withoutNasal(normalized)
+    const bucket = this.buckets.get(vowelSkeleton(comparable))
+    if (!bucket) return null
+
+    const threshold = maxDistance(comparable.length)
+    let best: { key: string; distance: number; rank: number[] } | null = null
+
+    for (const [spelling, words] of bucket) {
+      const candidate = withoutNasal(spelling)
+      // Word endings carry gender, number and case (larka/larki, dosti/dosto), so they must agree
+      if (candidate[candidate.length - 1] !== comparable[comparable.length - 1]) continue
+
+      const distance = candidate === comparable ? 0 : editDistance(comparable, candidate)
+      if (distance > threshold) continue
+      const closeness = editDistance(normalized, spelling)
+
+      for (const { keys, frequency } of words.values()) {
+        for (const key of keys) {
+          const rank = [distance, -frequency, closeness, editDistance(word, key)]
+          if (!best || compareRanks(rank, best.rank) < 0) best = { key, distance, rank }
+        }
+      }
+    }
+
+    if (!best) return null
+
+    const confidence = NORMALIZED_CONFIDENCE * (1 - best.distance / Math.max(comparable.length, 1))
+    return { key: best.key, distance: best.distance, confidence: Math.round(confidence * 100) / 100 }
+  }
+}
@@ -0,0 +1,89 @@
+// Word-level language identification for Roman text: which words are English inside Roman Urdu
+//
+// Each word is decided by the strongest signal it has, in this order: Roman Urdu function words, English
+// word lists (common words and known loanwords), Roman Urdu lexicon membership, and finally how its letters
+// compare under English and Roman Urdu character trigram models. Words spelled the same in both languages
+// ("the", "is") take the language of the words around them.
+
+import { AMBIGUOUS_ENGLISH_WORDS, isCommonEnglishWord } from "@/lib/english-words"
+import { isRomanUrduMarker } from "@/lib/script-detection"
+
+export type WordLanguage = "english" | "roman-urdu"
+
+// What an English word inside Roman Urdu becomes: its established Urdu spelling (or the usual Roman Urdu
+// treatment when it has none), the word as written, or the word as written between ENGLISH_MARKERS
+export type EnglishWordPolicy = "transliterate" | "keep" | "mark"
+
+export const ENGLISH_MARKERS = { open: "[", close: "]" }
+
+export type LanguageEvidence =
+  "roman-urdu-word" | "english-word" | "loanword" | "roman-lexicon" | "character-ngrams" | "context"
+
+export interface LanguageDecision {
+  language: WordLanguage
+  evidence: LanguageEvidence
+  // 0–1, how sure the identification is
+  confidence: number
+  // "loanword" when an English word got its established Urdu spelling; Roman Urdu is always "transliterated"
+  action: "transliterated" | "loanword" | "kept" | "marked"
+}
+
+// Lexicon lookups for the signals that need them, made only when the cheaper signals leave a word undecided
+export interface LanguageLookup {
+  isLoanword: (key: string) => boolean
+  // In the Roman Urdu lexicon, exactly or as a spelling variant
+  inRomanLexicon: (key: string) => boolean
+  // Bits per character by which the English spelling model prefers the word to the Roman Urdu one
+  englishAdvantage: (key: string) => number
+}
+
+// Minimum English advantage, in bits per character, for an unknown word to count as English. The English
+// model is trained on far fewer words than the Roman Urdu one, so a small lead means little
+const NGRAM_MARGIN = 1
+// Shorter unknown words carry too few trigrams to judge and stay Roman Urdu
+const NGRAM_MIN_LENGTH = 4
+
+export type IdentifiedLanguage = Omit<LanguageDecision, "action">
+
+function identifyWord(key: string, lookup: LanguageLookup): IdentifiedLanguage | null {
+  if (isRomanUrduMarker(key)) return { language: "roman-urdu", evidence: "roman-urdu-word", confidence: 0.95 }
+  if (AMBIGUOUS_ENGLISH_WORDS.has(key)) return null
+  if (isCommonEnglishWord(key)) return { language: "english", evidence: "english-word", confidence: 0.9 }
+  if (lookup.isLoanword(key)) return { language: "english", evidence: "loanword", confidence: 0.9 }
+  if (lookup.inRomanLexicon(key)) return { language: "roman-urdu", evidence: "roman-lexicon", confidence: 0.85 }
+  if (key.length < NGRAM_MIN_LENGTH) return { language: "roman-urdu", evidence: "character-ngrams", confidence: 0.5 }
+
+  // Logistic in the advantage: 0.5 at the margin, about 0.9 two bits past it
+  const english = 1 / (1 + Math.exp(-(lookup.englishAdvantage(key) - NGRAM_MARGIN) * 1.1))
+  return english >= 0.5
+    ? { language: "english", evidence: "character-ngrams", confidence: english }
+    : { language: "roman-urdu", evidence: "character-ngrams", confidence: 1 - english }
+}
+
+/**
+ * Identifies the language of each word (lowercase, without punctuation) in a run of Roman text. Words that
+ * could be either language are English only when the nearest decided words on both sides, or on the one
+ * side there is, are English.
+ */
+export function identifyWordLanguages(keys: string[], lookup: LanguageLookup): IdentifiedLanguage[] {
+  const decided = keys.map((key) => identifyWord(key, lookup))
+
+  // Nearest decided word after each position
+  const after: (IdentifiedLanguage | null)[] = []
+  for (let i = decided.length - 1, next: IdentifiedLanguage | null = null; i >= 0; i--) {
+    after[i] = next
+    next = decided[i] ?? next
+  }
+
+  let before: IdentifiedLanguage | null = null
+  return decided.map((decision, index) => {
+    if (decision) {
+      before = decision
+      return decision
+    }
+
+    const neighbours = [before, after[index]].filter((neighbour): neighbour is IdentifiedLanguage => !!neighbour)
+    const english = neighbours.length > 0 && neighbours.every((neighbour) => neighbour.language === "english")
+    return { language: english ? "english" : "roman-urdu", evidence: "context", confidence: english ? 0.7 : 0.6 }
+  })
+}
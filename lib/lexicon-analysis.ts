@@ -0,0 +1,254 @@
+// Lexicon analysis: browsing index, statistics and validation of the loaded lexicon packs, and the user dictionary's
+// differences from it
+
+import {
+  addLexiconCandidate,
+  compareLexiconCandidates,
+  type LexiconCandidate,
+  type LexiconEntry,
+  type PackLexiconEntry,
+} from "@/lib/transliteration"
+import type { UserDictionaryEntry } from "@/lib/user-dictionary"
+
+// Maps a spelling to the key the engine stores it under
+export type LexiconKeyFunction = (text: string, script: "urdu" | "roman") => string
+// Maps a Roman spelling to what Urdu→Roman output writes for it
+export type LexiconOutputFunction = (roman: string, preserveCase?: boolean) => string
+
+export interface IndexedLexiconEntry {
+  // Position among the loaded pack entries
+  index: number
+  urdu: string
+  roman: string
+  urduKey: string
+  romanKey: string
+  // The Roman spelling Urdu→Roman output uses
+  output: string
+  weight: number
+  // Rank of the entry's pack, as the engine ranks spellings
+  priority: number
+}
+
+export type LexiconProblem = "missing-urdu" | "missing-roman" | "latin-in-urdu" | "urdu-in-roman" | "invalid-weight"
+
+export interface MalformedLexiconEntry {
+  index: number
+  urdu: string
+  roman: string
+  problems: LexiconProblem[]
+}
+
+/**
+ * Entries that share a key. `spellings` are the distinct spellings stored for it, ranked the way the
+ * engine ranks them, so the first one is what the key transliterates to.
+ */
+export interface LexiconKeyGroup {
+  key: string
+  spellings: string[]
+  entries: IndexedLexiconEntry[]
+}
+
+export interface LexiconStats {
+  total: number
+  wellFormed: number
+  uniqueUrdu: number
+  uniqueRoman: number
+  phrases: number
+}
+
+export interface LexiconReport {
+  // Well-formed entries, in file order
+  entries: IndexedLexiconEntry[]
+  malformed: MalformedLexiconEntry[]
+  // The same pair listed more than once
+  duplicates: LexiconKeyGroup[]
+  // One Urdu key with several Roman spellings; only the first is used for Urdu→Roman
+  conflicts: LexiconKeyGroup[]
+  // One Roman key with several Urdu spellings; only the first is used for Roman→Urdu
+  reverseCollisions: LexiconKeyGroup[]
+  // Key -> ranked spellings in each direction
+  forward: Map<string, string[]>
+  reverse: Map<string, string[]>
+  stats: LexiconStats
+}
+
+export type UserDictionaryDiffStatus = "added" | "overrides" | "same"
+
+export interface UserDictionaryDiff {
+  entry: UserDictionaryEntry
+  status: UserDictionaryDiffStatus
+  // What the bundled lexicon gives for the entry's words, in the directions the entry applies to
+  bundledRoman: string[]
+  bundledUrdu: string[]
+}
+
+const URDU_LETTERS = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/
+const LATIN_LETTERS = /[A-Za-z]/
+
+function findProblems(entry: LexiconEntry): LexiconProblem[] {
+  const urdu = typeof entry.urdu_script === "string" ? entry.urdu_script.trim() : ""
+  const roman = typeof entry.roman_urdu === "string" ? entry.roman_urdu.trim() : ""
+  const problems: LexiconProblem[] = []
+
+  if (!urdu) problems.push("missing-urdu")
+  if (!roman) problems.push("missing-roman")
+  if (LATIN_LETTERS.test(urdu)) problems.push("latin-in-urdu")
+  if (URDU_LETTERS.test(roman)) problems.push("urdu-in-roman")
+  if (entry.weight !== undefined && !(typeof entry.weight === "number" && entry.weight > 0)) {
+    problems.push("invalid-weight")
+  }
+
+  return problems
+}
+
+/**
+ * Groups entries by key and ranks each key's spellings the way the engine's index does.
+ */
+function groupByKey(
+  entries: IndexedLexiconEntry[],
+  key: (entry: IndexedLexiconEntry) => string,
+  spelling: (entry: IndexedLexiconEntry) => string,
+): Map<string, LexiconKeyGroup> {
+  const groups = new Map<string, LexiconKeyGroup>()
+  const candidates = new Map<string, LexiconCandidate[]>()
+
+  entries.forEach((entry) => {
+    const group = groups.get(key(entry)) ?? { key: key(entry), spellings: [], entries: [] }
+    group.entries.push(entry)
+    groups.set(group.key, group)
+    addLexiconCandidate(candidates, group.key, spelling(entry), entry.weight, entry.priority)
+  })
+
+  groups.forEach((group) => {
+    group.spellings = candidates
+      .get(group.key)!
+      .sort(compareLexiconCandidates)
+      .map((candidate) => candidate.text)
+  })
+
+  return groups
+}
+
+export function analyzeLexicon(
+  data: PackLexiconEntry[],
+  toKey: LexiconKeyFunction,
+  toOutput: LexiconOutputFunction,
+): LexiconReport {
+  const entries: IndexedLexiconEntry[] = []
+  const malformed: MalformedLexiconEntry[] = []
+
+  data.forEach((entry, index) => {
+    const problems = findProblems(entry)
+    const urdu = String(entry.urdu_script ?? "").trim()
+    const roman = String(entry.roman_urdu ?? "").trim()
+
+    if (problems.length > 0) malformed.push({ index, urdu, roman, problems })
+    // Mixed scripts are reported but still loaded; only empty fields keep an entry out of the engine
+    if (!problems.includes("missing-urdu") && !problems.includes("missing-roman")) {
+      const urduKey = toKey(urdu, "urdu")
+      const romanKey = toKey(roman, "roman")
+      if (urduKey && romanKey) {
+        const output = toOutput(roman, entry.preserveCase)
+        entries.push({
+          index,
+          urdu,
+          roman,
+          urduKey,
+          romanKey,
+          output,
+          weight: entry.weight ?? 1,
+          priority: entry.priority,
+        })
+      }
+    }
+  })
+
+  const byUrdu = groupByKey(
+    entries,
+    (entry) => entry.urduKey,
+    (entry) => entry.output,
+  )
+  const byRoman = groupByKey(
+    entries,
+    (entry) => entry.romanKey,
+    (entry) => entry.urduKey,
+  )
+  const byPair = groupByKey(
+    entries,
+    (entry) => `${entry.urduKey} → ${entry.romanKey}`,
+    (entry) => entry.romanKey,
+  )
+
+  const toSpellings = (groups: Map<string, LexiconKeyGroup>) =>
+    new Map(Array.from(groups.values()).map((group) => [group.key, group.spellings]))
+  const ambiguous = (groups: Map<string, LexiconKeyGroup>) =>
+    Array.from(groups.values()).filter((group) => group.spellings.length > 1)
+
+  return {
+    entries,
+    malformed,
+    duplicates: Array.from(byPair.values()).filter((group) => group.entries.length > 1),
+    conflicts: ambiguous(byUrdu),
+    reverseCollisions: ambiguous(byRoman),
+    forward: toSpellings(byUrdu),
+    reverse: toSpellings(byRoman),
+    stats: {
+      total: data.length,
+      wellFormed: data.length - malformed.length,
+      uniqueUrdu: byUrdu.size,
+      uniqueRoman: byRoman.size,
+      phrases: Array.from(byUrdu.keys()).filter((key) => key.includes(" ")).length,
+    },
+  }
+}
+
+/**
+ * Compares each user dictionary entry with what the bundled lexicon gives for the same words. An entry
+ * overrides the lexicon when its spelling differs from the one the engine would otherwise write.
+ */
+export function diffUserDictionary(
+  userEntries: UserDictionaryEntry[],
+  report: LexiconReport,
+  toKey: LexiconKeyFunction,
+): UserDictionaryDiff[] {
+  return userEntries.map((entry) => {
+    const urduKey = toKey(entry.urdu, "urdu")
+    const romanKey = toKey(entry.roman, "roman")
+    const bundledRoman = entry.urduToRoman ? (report.forward.get(urduKey) ?? []) : []
+    const bundledUrdu = entry.romanToUrdu ? (report.reverse.get(romanKey) ?? []) : []
+
+    let status: UserDictionaryDiffStatus = "added"
+    if (bundledRoman.length > 0 || bundledUrdu.length > 0) {
+      // User dictionary spellings are written as the user typed them
+      const sameRoman = !entry.urduToRoman || bundledRoman[0] === entry.roman.trim()
+      const sameUrdu = !entry.romanToUrdu || bundledUrdu[0] === entry.urdu.trim()
+      status = sameRoman && sameUrdu ? "same" : "overrides"
+    }
+
+    return { entry, status, bundledRoman, bundledUrdu }
+  })
+}
+
+/**
+ * Entries whose Urdu or Roman text contains the query, matched on the stored keys so harakat and case
+ * do not matter.
+ */
+export function searchLexicon(
+  entries: IndexedLexiconEntry[],
+  query: string,
+  toKey: LexiconKeyFunction,
+): IndexedLexiconEntry[] {
+  const urduQuery = toKey(query, "urdu")
+  const romanQuery = toKey(query, "roman")
+  if (!urduQuery && !romanQuery) return entries
+
+  return entries.filter((entry) => entry.urduKey.includes(urduQuery) || entry.romanKey.includes(romanQuery))
+}
+
+/**
+ * Distinct first letters of the entries in one script, for browsing by letter.
+ */
+export function lexiconInitials(entries: IndexedLexiconEntry[], script: "urdu" | "roman"): string[] {
+  const initials = new Set(entries.map((entry) => Array.from(script === "urdu" ? entry.urduKey : entry.romanKey)[0]))
+  return Array.from(initials).sort((a, b) => a.localeCompare(b, script === "urdu" ? "ur" : "en"))
+}
@@ -0,0 +1,68 @@
+// Packed lexicon format: the compact form of a lexicon pack that scripts/build-lexicon-packs.mjs generates
+//
+// A header line, then one entry per line in the order of the source JSON, which the engine relies on to
+// break ties between equally weighted spellings:
+//
+//   #lexicon-pack 1
+//   urdu<TAB>roman
+//   urdu<TAB>roman<TAB>weight
+//
+// Whitespace inside a field is collapsed to single spaces, which the engine does to lexicon keys anyway.
+
+import type { LexiconEntry } from "@/lib/transliteration"
+
+export const PACKED_LEXICON_HEADER = "#lexicon-pack 1"
+
+// Lines parsed between yields to the event loop, so a large pack does not block the page while it loads
+const LINES_PER_SLICE = 2000
+
+function parseLine(line: string): LexiconEntry {
+  const [urdu = "", roman = "", weight] = line.split("\t")
+  return weight
+    ? { urdu_script: urdu, roman_urdu: roman, weight: Number(weight) }
+    : { urdu_script: urdu, roman_urdu: roman }
+}
+
+/**
+ * Parses a packed lexicon as it streams in, yielding to the event loop between slices of lines.
+ * Throws when the stream does not start with the expected header.
+ */
+export async function parsePackedLexicon(body: ReadableStream<Uint8Array>): Promise<LexiconEntry[]> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  const entries: LexiconEntry[] = []
+  let header: string | null = null
+  let pending = ""
+  let sinceYield = 0
+
+  const takeLines = async (lines: string[]) => {
+    for (const line of lines) {
+      if (header === null) {
+        header = line
+        if (header !== PACKED_LEXICON_HEADER) throw new Error(`Unsupported lexicon pack format: ${header}`)
+        continue
+      }
+      if (!line) continue
+
+      entries.push(parseLine(line))
+      if (++sinceYield >= LINES_PER_SLICE) {
+        sinceYield = 0
+        await new Promise((resolve) => setTimeout(resolve, 0))
+      }
+    }
+  }
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    pending += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+    const lines = pending.split("\n")
+    pending = done ? "" : lines.pop()!
+    await takeLines(lines)
+
+    if (done) break
+  }
+
+  if (header === null) throw new Error("Lexicon pack is empty")
+  return entries
+}
@@ -0,0 +1,130 @@
+// Lexicon packs: named word lists for a domain, described by a manifest and enabled in priority order
+
+import { parsePackedLexicon } from "@/lib/lexicon-format"
+import type { LexiconEntry } from "@/lib/transliteration"
+
+export interface LexiconPack {
+  id: string
+  name: string
+  description: string
+  // URL of the pack's entries, in the same format as lexicon.json
+  path: string
+  // Urdu→Roman output keeps the pack's capitalization (names, "Allah") instead of lowercasing it
+  preserveCase?: boolean
+  // Packed form of the entries and a hash of its content, from the index scripts/build-lexicon-packs.mjs writes
+  packed?: string
+  hash?: string
+}
+
+interface LexiconPackManifest {
+  packs: LexiconPack[]
+}
+
+// Generated at build time; missing in development until `npm run build:lexicon` has run
+interface PackedLexiconIndex {
+  packs: Record<string, Pick<LexiconPack, "packed" | "hash">>
+}
+
+export const LEXICON_MANIFEST_PATH = "/lexicons/manifest.json"
+export const PACKED_LEXICON_INDEX_PATH = "/lexicons/packed.json"
+
+export const DEFAULT_LEXICON_PACKS = ["general"]
+
+const PACK_CACHE_NAME = "lexicon-packs"
+
+let manifestRequest: Promise<LexiconPack[]> | null = null
+
+/**
+ * The packs listed in the manifest, with their packed files where they have been built. Fetched once; a failed
+ * request is retried on the next call.
+ */
+export function loadLexiconManifest(): Promise<LexiconPack[]> {
+  if (!manifestRequest) {
+    const manifest = fetch(LEXICON_MANIFEST_PATH).then((response) => {
+      if (!response.ok) throw new Error(`Lexicon manifest request failed with status ${response.status}`)
+      return response.json() as Promise<LexiconPackManifest>
+    })
+    manifestRequest = Promise.all([manifest, loadPackedIndex()])
+      .then(([{ packs }, packed]) => packs.map((pack) => ({ ...pack, ...packed[pack.id] })))
+      .catch((error) => {
+        manifestRequest = null
+        throw error
+      })
+  }
+  return manifestRequest
+}
+
+// Without the index every pack is fetched as JSON
+async function loadPackedIndex(): Promise<PackedLexiconIndex["packs"]> {
+  try {
+    const response = await fetch(PACKED_LEXICON_INDEX_PATH)
+    return response.ok ? ((await response.json()) as PackedLexiconIndex).packs : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Fetches a pack's entries. Packed packs are kept in Cache Storage under their content hash, so they are
+ * downloaded once per version; older versions are dropped when a new one is stored.
+ */
+export async function fetchLexiconPack(pack: LexiconPack): Promise<LexiconEntry[]> {
+  if (!pack.packed || !pack.hash) {
+    return (await fetchOk(pack.path, pack.id).then((response) => response.json())) as LexiconEntry[]
+  }
+
+  const url = `${pack.packed}?hash=${pack.hash}`
+  const cache = await openPackCache()
+  let response = await cache?.match(url)
+
+  if (!response) {
+    response = await fetchOk(url, pack.id)
+    // Stored while the original streams into the parser
+    if (cache) storePack(cache, pack, url, response.clone())
+  }
+
+  return parsePackedLexicon(response.body!)
+}
+
+async function fetchOk(url: string, packId: string): Promise<Response> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Lexicon pack "${packId}" request failed with status ${response.status}`)
+  return response
+}
+
+async function openPackCache(): Promise<Cache | null> {
+  try {
+    return typeof caches === "undefined" ? null : await caches.open(PACK_CACHE_NAME)
+  } catch {
+    // Cache Storage is unavailable in insecure contexts and some private modes
+    return null
+  }
+}
+
+async function storePack(cache: Cache, pack: LexiconPack, url: string, response: Response) {
+  try {
+    const stale = (await cache.keys()).filter((request) => {
+      const cached = new URL(request.url)
+      return cached.pathname === pack.packed && cached.searchParams.get("hash") !== pack.hash
+    })
+    await Promise.all(stale.map((request) => cache.delete(request)))
+    await cache.put(url, response)
+  } catch (error) {
+    // A full or unavailable cache only costs a download next time
+    console.warn(`Failed to cache lexicon pack "${pack.id}":`, error)
+  }
+}
+
+/**
+ * Moves a pack one place up or down the priority order.
+ */
+export function movePack(packIds: string[], id: string, offset: -1 | 1): string[] {
+  const from = packIds.indexOf(id)
+  const to = from + offset
+  if (from < 0 || to < 0 || to >= packIds.length) return packIds
+
+  const reordered = [...packIds]
+  reordered.splice(from, 1)
+  reordered.splice(to, 0, id)
+  return reordered
+}
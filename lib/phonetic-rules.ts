@@ -0,0 +1,74 @@
+// Ordered phonetic post-processing rules applied to rule-based output
+
+export type PhoneticRuleDirection = "urdu-to-roman" | "roman-to-urdu"
+
+export interface PhoneticRule {
+  id: string
+  name: string
+  description: string
+  direction: PhoneticRuleDirection
+  // Regular expression source, matched globally against each rule-based word
+  pattern: string
+  replacement: string
+  enabled: boolean
+  // Added by the user rather than shipped with the engine
+  custom?: boolean
+}
+
+const CONSONANT = "[bcdfghjklmnpqrstvwxyzBCDFGHJKLMNPQRSTVWXYZ]"
+
+export const BUILT_IN_PHONETIC_RULES: PhoneticRule[] = [
+  {
+    id: "medial-w-as-o",
+    name: "Medial w → o",
+    description: "Waw between consonants is read as the vowel o",
+    direction: "urdu-to-roman",
+    pattern: `(?<=${CONSONANT})w(?=${CONSONANT})`,
+    replacement: "o",
+    enabled: true,
+  },
+  {
+    id: "medial-y-as-i",
+    name: "Medial y → i",
+    description: "Yeh between consonants is read as the vowel i",
+    direction: "urdu-to-roman",
+    pattern: `(?<=${CONSONANT})y(?=${CONSONANT})`,
+    replacement: "i",
+    enabled: true,
+  },
+]
+
+const compiled = new Map<string, RegExp | null>()
+
+/**
+ * Compiles a rule pattern once; returns null when the pattern is not a valid regular expression.
+ */
+export function compilePhoneticRule(pattern: string): RegExp | null {
+  if (!compiled.has(pattern)) {
+    try {
+      compiled.set(pattern, new RegExp(pattern, "g"))
+    } catch {
+      compiled.set(pattern, null)
+    }
+  }
+  return compiled.get(pattern)!
+}
+
+/**
+ * Built-in rules with the user's enable flags applied, followed by the user's own rules in the order they were added.
+ */
+export function resolvePhoneticRules(disabledRuleIds: string[], customRules: PhoneticRule[]): PhoneticRule[] {
+  const builtIns = BUILT_IN_PHONETIC_RULES.map((rule) => ({ ...rule, enabled: !disabledRuleIds.includes(rule.id) }))
+  return [...builtIns, ...customRules]
+}
+
+/**
+ * Runs the enabled rules for `direction` in order. Rules with invalid patterns are skipped.
+ */
+export function applyPhoneticRules(text: string, rules: PhoneticRule[], direction: PhoneticRuleDirection): string {
+  return rules.reduce((current, rule) => {
+    if (!rule.enabled || rule.direction !== direction) return current
+    const pattern = compilePhoneticRule(rule.pattern)
+    return pattern ? current.replace(pattern, rule.replacement) : current
+  }, text)
+}
@@ -0,0 +1,109 @@
+// Punctuation shared by Urdu and Roman text and how it maps between the two scripts
+
+export type PunctuationHandling = "convert" | "preserve" | "remove"
+
+export type TargetScript = "roman" | "urdu"
+
+// Where a punctuation run sits in its word; straight quotes open at the start of a word and close at the end
+export type PunctuationPosition = "leading" | "inner" | "trailing"
+
+export interface PunctuatedWord {
+  leading: string
+  core: string
+  trailing: string
+}
+
+// Characters that may open or close a word in either script
+const EDGE_PUNCTUATION = `.,?!;:"'“”‘’«»()\\[\\]{}﴾﴿…%/۔؟،؛٪؍`
+const LEADING_RUN = new RegExp(`^[${EDGE_PUNCTUATION}]+`)
+const TRAILING_RUN = new RegExp(`[${EDGE_PUNCTUATION}]+$`)
+const EDGE_CHAR = new RegExp(`[${EDGE_PUNCTUATION}]`, "g")
+const PUNCTUATION_CHAR = new RegExp(`^[${EDGE_PUNCTUATION}]$`)
+
+// Sentence punctuation that may also sit inside a word (kitab,qalam); apostrophes and hyphens there are letters
+const INNER_PUNCTUATION = /[.,?!;:"“”‘’«»()[\]{}﴾﴿…%۔؟،؛٪؍]/g
+
+const DIGIT = "[0-9\\u0660-\\u0669\\u06F0-\\u06F9]"
+// A full stop or comma between digits is a decimal point or group separator, not sentence punctuation
+const NUMERIC_SEPARATOR = new RegExp(`(?<=${DIGIT})[.,۔،](?=${DIGIT})`, "g")
+const URDU_DECIMAL_POINT = new RegExp(`(?<=${DIGIT})۔(?=${DIGIT})`, "g")
+
+const TO_ROMAN: Record<string, string> = {
+  "۔": ".",
+  "؟": "?",
+  "،": ",",
+  "؛": ";",
+  "٪": "%",
+  "؍": "/",
+  "“": '"',
+  "”": '"',
+  "«": '"',
+  "»": '"',
+  "‘": "'",
+  "’": "'",
+  "﴾": "(",
+  "﴿": ")",
+  "…": "...",
+}
+
+// Brackets, colons and exclamation marks are written the same way in Urdu
+const TO_URDU: Record<string, string> = {
+  ".": "۔",
+  "?": "؟",
+  ",": "،",
+  ";": "؛",
+  "%": "٪",
+  "/": "؍",
+}
+
+// Urdu punctuation in the Arabic block, which is not left untransliterated when it is preserved
+export const URDU_PUNCTUATION_CHARS = /[۔؟،؛٪؍﴾﴿]/g
+
+/**
+ * Splits the punctuation that opens and closes a word from the text in between.
+ */
+export function splitPunctuation(word: string): PunctuatedWord {
+  const leading = word.match(LEADING_RUN)?.[0] ?? ""
+  const rest = word.slice(leading.length)
+  const trailing = rest.match(TRAILING_RUN)?.[0] ?? ""
+  return { leading, core: rest.slice(0, rest.length - trailing.length), trailing }
+}
+
+export function isPunctuation(char: string): boolean {
+  return PUNCTUATION_CHAR.test(char)
+}
+
+/**
+ * Reads an Urdu full stop written between digits as a decimal point (۱۲۔۵ → ۱۲.۵).
+ */
+export function readDecimalPoints(text: string): string {
+  return text.replace(URDU_DECIMAL_POINT, ".")
+}
+
+/**
+ * Applies the punctuation handling to a run of text written for `target`. Only punctuation is touched,
+ * and separators between digits are left to the number formatting.
+ */
+export function convertPunctuation(
+  text: string,
+  target: TargetScript,
+  handling: PunctuationHandling,
+  position: PunctuationPosition = "inner",
+): string {
+  if (handling === "preserve" || !text) return text
+
+  const pattern = position === "inner" ? INNER_PUNCTUATION : EDGE_CHAR
+  const withEllipses =
+    handling === "remove" ? text : target === "roman" ? text.replace(/۔۔۔/g, "...") : text.replace(/\.\.\.|…/g, "۔۔۔")
+  const separators = new Set(Array.from(withEllipses.matchAll(NUMERIC_SEPARATOR), (match) => match.index))
+
+  return withEllipses.replace(pattern, (char, offset: number) => {
+    if (separators.has(offset)) return char
+    if (handling === "remove") return ""
+    if (target === "roman") return TO_ROMAN[char] ?? char
+
+    if (char === '"') return position === "leading" ? "“" : position === "trailing" ? "”" : char
+    if (char === "'") return position === "leading" ? "‘" : position === "trailing" ? "’" : char
+    return TO_URDU[char] ?? char
+  })
+}
@@ -0,0 +1,75 @@
+// Lossless Urdu ↔ ASCII encoding used by reversible romanization schemes
+
+import type { RomanizationScheme } from "@/lib/romanization-schemes"
+
+const ESCAPE = "\\"
+
+// Urdu punctuation and digits take the ASCII characters they stand for; those ASCII characters are escaped
+// when they occur in the Urdu source
+const NATIVE_CODES: Record<string, string> = {
+  "۔": ".",
+  "؟": "?",
+  "،": ",",
+  "؛": ";",
+  "٪": "%",
+  "۰": "0",
+  "۱": "1",
+  "۲": "2",
+  "۳": "3",
+  "۴": "4",
+  "۵": "5",
+  "۶": "6",
+  "۷": "7",
+  "۸": "8",
+  "۹": "9",
+}
+
+const tables = new Map<RomanizationScheme, { encode: Record<string, string>; decode: Record<string, string> }>()
+
+function tablesFor(scheme: RomanizationScheme) {
+  if (!tables.has(scheme)) {
+    const encode = { ...scheme.letters, ...NATIVE_CODES }
+    const decode = Object.fromEntries(Object.entries(encode).map(([urdu, code]) => [code, urdu]))
+    tables.set(scheme, { encode, decode })
+  }
+  return tables.get(scheme)!
+}
+
+/**
+ * Encodes Urdu text as printable ASCII. Letters and marks use the scheme's codes, other printable ASCII, tabs
+ * and line breaks are kept (escaped with a backslash when they would read as a code) and anything else,
+ * Unicode spaces included, becomes \{hex}. A brace is never a code, so \{ only ever starts a code point.
+ */
+export function encodeReversible(text: string, scheme: RomanizationScheme): string {
+  const { encode, decode } = tablesFor(scheme)
+
+  return Array.from(text, (char) => {
+    if (char in encode) return encode[char]
+    if (char in decode || char === ESCAPE) return ESCAPE + char
+    if (/^[\x20-\x7E\t\n\r]$/.test(char)) return char
+    return `${ESCAPE}{${char.codePointAt(0)!.toString(16).toUpperCase()}}`
+  }).join("")
+}
+
+export function decodeReversible(text: string, scheme: RomanizationScheme): string {
+  const { decode } = tablesFor(scheme)
+  let decoded = ""
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char !== ESCAPE) {
+      decoded += decode[char] ?? char
+      continue
+    }
+
+    const codePoint = text.slice(i + 1).match(/^\{([0-9A-Fa-f]+)\}/)
+    if (codePoint) {
+      decoded += String.fromCodePoint(parseInt(codePoint[1], 16))
+      i += codePoint[0].length
+    } else if (i + 1 < text.length) {
+      decoded += text[++i]
+    }
+  }
+
+  return decoded
+}
@@ -0,0 +1,358 @@
+// Romanization schemes: how Urdu letters and vowels are spelled in Roman script, in both directions
+
+import { FATHATAN, DAMMATAN, JAZM, KASRATAN, KHARI_ZABAR, PESH, SHADDA, ZABAR, ZER } from "@/lib/diacritics"
+
+export type RomanizationSchemeId = "casual" | "ala-lc" | "iso-15919" | "hunterian" | "ascii"
+
+export interface RomanizationScheme {
+  id: RomanizationSchemeId
+  name: string
+  description: string
+  // Roman value of each Urdu letter. When Roman→Urdu spellings collide, the earlier letter wins
+  letters: Record<string, string>
+  // Appended to a consonant followed by do-chashmi heh
+  aspiration: string
+  // Spelling of each vowel the engine infers, keyed by its casual Roman Urdu form
+  vowels: Record<string, string>
+  // Roman vowels and the Urdu letter that writes them; short vowels map to "" (a mark, or nothing)
+  romanVowels: Record<string, string>
+  // Written for izafat constructions (kitab-e)
+  izafat: string
+  // Ain and hamza are spelled even when the casual reading drops them
+  marksAin: boolean
+  // Encodes every character on its own with no normalization or vowel inference, so Urdu→Roman→Urdu
+  // reproduces the input exactly (see lib/reversible.ts)
+  reversible: boolean
+  // Roman input is matched case-sensitively instead of being lowercased
+  caseSensitive: boolean
+  // The bundled lexicon is casual Roman Urdu, so only schemes that share its spelling consult it
+  usesLexicon: boolean
+  // Roman → Urdu spellings, derived from the tables above
+  toUrdu: Record<string, string>
+}
+
+// Consonants that take do-chashmi heh; ڑ precedes ر so "rh" reads as ڑھ
+const ASPIRATING = ["ب", "پ", "ت", "ٹ", "ج", "چ", "د", "ڈ", "ڑ", "ر", "ک", "گ", "ل", "م", "ن"]
+
+// Letters that spell vowels; Roman→Urdu takes them from `romanVowels` instead
+const VOWEL_LETTERS = new Set(["ا", "آ", "أ", "إ", "ے"])
+
+function defineScheme(scheme: Omit<RomanizationScheme, "toUrdu">): RomanizationScheme {
+  const toUrdu: Record<string, string> = {}
+
+  if (scheme.reversible) {
+    Object.entries(scheme.letters).forEach(([urdu, roman]) => (toUrdu[roman] = urdu))
+    return { ...scheme, toUrdu }
+  }
+
+  // Case-insensitive schemes also read a capital spelling (casual T for ٹ) typed in lowercase, as whichever
+  // letter comes first
+  const spellings = (roman: string) => (scheme.caseSensitive ? [roman] : [roman, roman.toLowerCase()])
+
+  Object.entries(scheme.letters).forEach(([urdu, roman]) => {
+    spellings(roman).forEach((spelling) => {
+      if (spelling && !VOWEL_LETTERS.has(urdu) && !(spelling in toUrdu)) toUrdu[spelling] = urdu
+    })
+  })
+  ASPIRATING.forEach((urdu) => {
+    spellings(scheme.letters[urdu] + scheme.aspiration).forEach((spelling) => {
+      if (!(spelling in toUrdu)) toUrdu[spelling] = urdu + "ھ"
+    })
+  })
+  Object.entries(scheme.romanVowels).forEach(([roman, urdu]) => (toUrdu[roman] = urdu))
+
+  return { ...scheme, toUrdu }
+}
+
+const CASUAL_LETTERS: Record<string, string> = {
+  ا: "a",
+  آ: "aa",
+  أ: "a",
+  إ: "i",
+  ب: "b",
+  پ: "p",
+  ت: "t",
+  ٹ: "T",
+  ث: "s",
+  ج: "j",
+  چ: "ch",
+  ہ: "h",
+  ح: "h",
+  خ: "kh",
+  د: "d",
+  ڈ: "D",
+  ذ: "z",
+  ر: "r",
+  ڑ: "R",
+  ز: "z",
+  ژ: "zh",
+  س: "s",
+  ش: "sh",
+  ص: "s",
+  ض: "z",
+  ط: "t",
+  ظ: "z",
+  ع: "",
+  غ: "gh",
+  ف: "f",
+  ق: "q",
+  ک: "k",
+  گ: "g",
+  ل: "l",
+  م: "m",
+  ن: "n",
+  ں: "n",
+  و: "w",
+  ھ: "h",
+  ی: "y",
+  ے: "e",
+  ء: "'",
+  ئ: "'",
+}
+
+const CASUAL_ROMAN_VOWELS: Record<string, string> = {
+  aa: "آ",
+  a: "ا",
+  e: "ے",
+  i: "ی",
+  o: "و",
+  u: "و",
+}
+
+// Scholarly schemes write long vowels explicitly, so short ones are left to harakat
+const SCHOLARLY_ROMAN_VOWELS: Record<string, string> = {
+  ā: "ا",
+  ī: "ی",
+  ū: "و",
+  ai: "ے",
+  au: "و",
+  a: "",
+  i: "",
+  u: "",
+}
+
+export const ROMANIZATION_SCHEMES: Record<RomanizationSchemeId, RomanizationScheme> = {
+  casual: defineScheme({
+    id: "casual",
+    name: "Roman Urdu (casual)",
+    description: "Everyday spelling as used in messaging, matched against the lexicon",
+    letters: CASUAL_LETTERS,
+    aspiration: "h",
+    vowels: {},
+    romanVowels: CASUAL_ROMAN_VOWELS,
+    izafat: "-e",
+    marksAin: false,
+    reversible: false,
+    caseSensitive: false,
+    usesLexicon: true,
+  }),
+  "ala-lc": defineScheme({
+    id: "ala-lc",
+    name: "ALA-LC",
+    description: "Library of Congress romanization with diacritics (ṭ, ḍ, ṛ, ʻ, ā)",
+    letters: {
+      ...CASUAL_LETTERS,
+      آ: "ā",
+      ٹ: "ṭ",
+      ث: "s̤",
+      ح: "ḥ",
+      خ: "k͟h",
+      ڈ: "ḍ",
+      ذ: "ẕ",
+      ڑ: "ṛ",
+      ص: "ṣ",
+      ض: "ż",
+      ط: "t̤",
+      ظ: "z̤",
+      ع: "ʻ",
+      غ: "g͟h",
+      ں: "ṉ",
+      و: "v",
+      ء: "ʼ",
+      ئ: "ʼ",
+    },
+    aspiration: "h",
+    vowels: { aa: "ā", ee: "ī", oo: "ū", ay: "ai", ei: "e", ey: "e", ow: "au", ou: "au", aw: "au", eh: "ah" },
+    romanVowels: { ...SCHOLARLY_ROMAN_VOWELS, e: "ے", o: "و" },
+    izafat: "-i",
+    marksAin: true,
+    reversible: false,
+    caseSensitive: false,
+    usesLexicon: false,
+  }),
+  "iso-15919": defineScheme({
+    id: "iso-15919",
+    name: "ISO 15919",
+    description: "ISO romanization shared with Devanagari Hindustani (ṭ, ś, ē, ō, m̐)",
+    letters: {
+      ...CASUAL_LETTERS,
+      آ: "ā",
+      ٹ: "ṭ",
+      ث: "s̱",
+      چ: "c",
+      ح: "ḥ",
+      خ: "k͟h",
+      ڈ: "ḍ",
+      ذ: "ẕ",
+      ڑ: "ṛ",
+      ژ: "ž",
+      ش: "ś",
+      ص: "ṣ",
+      ض: "ż",
+      ط: "t̤",
+      ظ: "z̤",
+      ع: "ʿ",
+      غ: "ġ",
+      ں: "m̐",
+      و: "v",
+      ے: "ē",
+      ء: "ʾ",
+      ئ: "ʾ",
+    },
+    aspiration: "h",
+    vowels: {
+      aa: "ā",
+      ee: "ī",
+      oo: "ū",
+      e: "ē",
+      o: "ō",
+      ay: "ai",
+      ei: "ē",
+      ey: "ē",
+      ow: "au",
+      ou: "au",
+      aw: "au",
+      eh: "ah",
+    },
+    romanVowels: { ...SCHOLARLY_ROMAN_VOWELS, ē: "ے", ō: "و" },
+    izafat: "-ē",
+    marksAin: true,
+    reversible: false,
+    caseSensitive: false,
+    usesLexicon: false,
+  }),
+  hunterian: defineScheme({
+    id: "hunterian",
+    name: "Hunterian",
+    description: "Official place-name spelling without diacritics; long and short vowels are not distinguished",
+    letters: { ...CASUAL_LETTERS, آ: "a", ٹ: "t", ڈ: "d", ڑ: "r", ء: "", ئ: "" },
+    aspiration: "h",
+    vowels: { aa: "a", ee: "i", oo: "u", ay: "ai", ei: "e", ey: "e", ow: "au", ou: "au", aw: "au" },
+    romanVowels: { ai: "ے", au: "و", ...CASUAL_ROMAN_VOWELS },
+    izafat: "-e",
+    marksAin: false,
+    reversible: false,
+    caseSensitive: false,
+    usesLexicon: false,
+  }),
+  ascii: defineScheme({
+    id: "ascii",
+    name: "Lossless ASCII",
+    description:
+      "One case-sensitive ASCII character per Urdu letter or mark, for storing Urdu in ASCII-only systems; converts back to the same Urdu",
+    letters: {
+      ا: "A",
+      آ: "|",
+      أ: ">",
+      إ: "<",
+      ء: "@",
+      ئ: "&",
+      ب: "b",
+      پ: "p",
+      ت: "t",
+      ٹ: "T",
+      ث: "v",
+      ج: "j",
+      چ: "c",
+      ح: "H",
+      خ: "x",
+      د: "d",
+      ڈ: "D",
+      ذ: "*",
+      ر: "r",
+      ڑ: "R",
+      ز: "z",
+      ژ: "J",
+      س: "s",
+      ش: "$",
+      ص: "S",
+      ض: "Z",
+      ط: "V",
+      ظ: "X",
+      ع: "E",
+      غ: "g",
+      ف: "f",
+      ق: "q",
+      ک: "k",
+      گ: "G",
+      ل: "l",
+      م: "m",
+      ن: "n",
+      ں: "N",
+      و: "w",
+      ہ: "h",
+      ھ: "_",
+      ی: "y",
+      ے: "e",
+      [ZABAR]: "a",
+      [ZER]: "i",
+      [PESH]: "u",
+      [SHADDA]: "~",
+      [JAZM]: "o",
+      [KHARI_ZABAR]: "`",
+      [FATHATAN]: "F",
+      [DAMMATAN]: "U",
+      [KASRATAN]: "K",
+      "\u0654": "^",
+    },
+    aspiration: "_",
+    vowels: {},
+    romanVowels: {},
+    izafat: "",
+    marksAin: true,
+    reversible: true,
+    caseSensitive: true,
+    usesLexicon: false,
+  }),
+}
+
+export const DEFAULT_SCHEME = ROMANIZATION_SCHEMES.casual
+
+// The long vowel each vowel letter writes, keyed by its casual spelling together with the short vowel casual
+// spelling puts before the letter (kitab: t, a, alif as "a"; aur: alif as "a", waw as "u"). Values are keys of
+// `vowels`.
+const LONG_VOWEL_READINGS: Record<string, Record<string, string>> = {
+  ا: { a: "aa", aa: "aa" },
+  و: { o: "o", u: "oo", oo: "oo", au: "au", aw: "au", ow: "au", ou: "au" },
+  ی: { i: "ee", ee: "ee", e: "e", ei: "e", ey: "e", ai: "ai", ay: "ai" },
+  ے: { e: "e", ay: "e", ey: "e", ai: "ai" },
+}
+
+/**
+ * Reads the long vowel a vowel letter writes from its casual spelling, joined to the short vowel before it, for
+ * schemes that spell long vowels as one letter (ā, ī, ū). Returns undefined when they do not make one vowel.
+ */
+export function readLongVowel(unit: string, casual: string): string | undefined {
+  return LONG_VOWEL_READINGS[unit]?.[casual]
+}
+
+/**
+ * Spells a vowel-carrying letter (alif, waw, yeh, heh, ain, hamza, noon ghunna) whose reading the engine
+ * inferred in casual Roman Urdu.
+ */
+export function spellFlexibleLetter(unit: string, casualCore: string, scheme: RomanizationScheme): string {
+  // Casual spelling is what the vowel model learned
+  if (scheme.id === "casual") return casualCore
+
+  const letter = scheme.letters[unit] ?? casualCore
+  // The consonantal reading (w, y, h, n, '), doubled under a shadda
+  if (casualCore === CASUAL_LETTERS[unit] || casualCore === "'") return letter
+  if (!VOWEL_LETTERS.has(unit) && casualCore === CASUAL_LETTERS[unit]?.repeat(2)) return letter + letter
+
+  const vowel = scheme.vowels[casualCore] ?? casualCore
+  return scheme.marksAin && (unit === "ع" || unit === "ء") ? letter + vowel : vowel
+}
+
+export function spellVowel(casualVowel: string, scheme: RomanizationScheme): string {
+  return scheme.vowels[casualVowel] ?? casualVowel
+}
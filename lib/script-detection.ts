@@ -0,0 +1,179 @@
+// Script detection: which script a text is written in, and which transliteration direction that implies
+
+import { isCommonEnglishWord } from "@/lib/english-words"
+import type { TransliterationDirection } from "@/lib/transliteration-pipeline"
+
+export type DetectedScript = "urdu" | "roman-urdu" | "english" | "mixed" | "unknown"
+
+export interface ScriptDetection {
+  script: DetectedScript
+  // Share of the letters written in Arabic script, 0–1
+  urduShare: number
+  // Latin-script words recognised as English and as Roman Urdu; most words are neither
+  englishWords: number
+  romanUrduWords: number
+  // The direction the dominant script calls for; null for text without letters
+  direction: TransliterationDirection | null
+}
+
+export const SCRIPT_LABELS: Record<DetectedScript, string> = {
+  urdu: "Urdu script",
+  "roman-urdu": "Roman Urdu",
+  english: "English",
+  mixed: "Mixed scripts",
+  unknown: "No letters",
+}
+
+// Only the start of a long text is looked at
+const SAMPLE_SIZE = 5000
+
+// Share of the letters one script needs before the text counts as written in it
+const DOMINANT_SHARE = 0.8
+
+const ARABIC_LETTER =
+  /[\u0620-\u064A\u066E\u066F\u0671-\u06D3\u06D5\u06EE\u06EF\u06FA-\u06FC\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFC]/
+const LATIN_LETTER = /[A-Za-z\u00C0-\u024F]/
+const LATIN_WORD = /[A-Za-z\u00C0-\u024F']+/g
+
+// Frequent Roman Urdu words that are not English words
+const ROMAN_URDU_MARKERS = new Set([
+  "aap",
+  "ab",
+  "abhi",
+  "acha",
+  "achha",
+  "agar",
+  "apna",
+  "apne",
+  "apni",
+  "aur",
+  "bahut",
+  "bhi",
+  "bohat",
+  "bohot",
+  "diya",
+  "ek",
+  "gaya",
+  "gaye",
+  "gayi",
+  "haan",
+  "hai",
+  "hain",
+  "ham",
+  "ho",
+  "hoga",
+  "hogi",
+  "hota",
+  "hoti",
+  "hum",
+  "iska",
+  "jab",
+  "ji",
+  "ka",
+  "kab",
+  "kahan",
+  "kaise",
+  "kar",
+  "karna",
+  "karo",
+  "kaun",
+  "ke",
+  "ki",
+  "kia",
+  "kisi",
+  "ko",
+  "koi",
+  "kuch",
+  "kya",
+  "kyun",
+  "lekin",
+  "liya",
+  "liye",
+  "magar",
+  "main",
+  "mein",
+  "mera",
+  "meri",
+  "mere",
+  "nahi",
+  "nahin",
+  "par",
+  "pe",
+  "phir",
+  "raha",
+  "rahe",
+  "rahi",
+  "sab",
+  "saath",
+  "se",
+  "tha",
+  "theek",
+  "thi",
+  "tum",
+  "toh",
+  "uska",
+  "wala",
+  "wale",
+  "wali",
+  "wahan",
+  "woh",
+  "wo",
+  "yahan",
+  "ye",
+  "yeh",
+])
+
+export function isRomanUrduMarker(word: string): boolean {
+  return ROMAN_URDU_MARKERS.has(word.toLowerCase())
+}
+
+/**
+ * Classifies text by the letters it is written in. Latin-script text is English when it has more common
+ * English words than common Roman Urdu words, and Roman Urdu otherwise. Either way it calls for Roman → Urdu,
+ * which keeps or transliterates the English words of code-switched text; English → Urdu is only ever chosen
+ * by the user.
+ */
+export function detectScript(text: string): ScriptDetection {
+  const sample = text.slice(0, SAMPLE_SIZE)
+
+  let arabicLetters = 0
+  let latinLetters = 0
+  for (const char of Array.from(sample)) {
+    if (ARABIC_LETTER.test(char)) arabicLetters++
+    else if (LATIN_LETTER.test(char)) latinLetters++
+  }
+
+  let englishWords = 0
+  let romanUrduWords = 0
+  for (const word of sample.match(LATIN_WORD) ?? []) {
+    const lower = word.toLowerCase()
+    if (isRomanUrduMarker(lower)) romanUrduWords++
+    else if (isCommonEnglishWord(lower)) englishWords++
+  }
+
+  const letters = arabicLetters + latinLetters
+  const urduShare = letters === 0 ? 0 : arabicLetters / letters
+  const counts = { urduShare, englishWords, romanUrduWords }
+
+  if (letters === 0) return { script: "unknown", ...counts, direction: null }
+  if (urduShare >= DOMINANT_SHARE) return { script: "urdu", ...counts, direction: "urdu-to-roman" }
+  if (urduShare <= 1 - DOMINANT_SHARE) {
+    return { script: englishWords > romanUrduWords ? "english" : "roman-urdu", ...counts, direction: "roman-to-urdu" }
+  }
+
+  return { script: "mixed", ...counts, direction: urduShare >= 0.5 ? "urdu-to-roman" : "roman-to-urdu" }
+}
+
+/**
+ * The direction to switch to when the text is clearly in the other script than `direction` expects: Urdu script
+ * for a Latin-input direction, or Latin script for Urdu → Roman. Roman → Urdu and English → Urdu both read Latin
+ * script, so one never contradicts the other, and mixed text never triggers a switch.
+ */
+export function contradictedDirection(
+  detection: ScriptDetection,
+  direction: TransliterationDirection,
+): TransliterationDirection | null {
+  if (detection.script === "mixed" || !detection.direction) return null
+  const readsUrdu = (candidate: TransliterationDirection) => candidate === "urdu-to-roman"
+  return readsUrdu(detection.direction) === readsUrdu(direction) ? null : detection.direction
+}
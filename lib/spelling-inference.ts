@@ -0,0 +1,315 @@
+// Urdu spelling inference for Roman Urdu words, learned from lexicon pairs at load time.
+//
+// Pairs are aligned the same way as for vowel inference: every Urdu unit is read from a Roman piece,
+// optionally followed by a short vowel the script leaves unwritten. Decoding picks the unit sequence
+// that best explains a Roman word under those readings and a trigram model of Urdu spelling, which
+// settles dropped vowels, final heh vs alif, noon ghunna and homophones such as س/ص/ث or ت/ط.
+
+import { alignUnits, toUrduUnits } from "@/lib/vowel-inference"
+
+export interface SpelledUnit {
+  unit: string
+  // Roman piece the unit was read from
+  piece: string
+  // Short vowel after the piece that the script does not write
+  vowel: string
+}
+
+const WORD_START = "^"
+const WORD_END = "$"
+
+// Interpolation weights of the trigram, bigram and unigram spelling estimates
+const CONTEXT_WEIGHTS = [0.7, 0.25, 0.05]
+// Keeps spellings never seen in a context possible, just unlikely
+const UNSEEN_PROBABILITY = 1e-6
+
+// Roman Urdu often writes a short u as "o" (mohabbat, mohalla); the vowel is still modelled as u. An "o" is
+// far more often a written و (bolte, sona), so that reading is discounted
+const VOWEL_SPELLINGS: Record<string, Record<string, number>> = { u: { u: 1, o: 0.05 } }
+
+// Casual spellings the lexicon rarely uses, read as the lexicon's spelling of the letter: a final ے or ہ
+// written "e" (karte, pe for kartay, peh) and ڑ written "d" (sadak, padhna for sarak, parhna). A "d" is still
+// far more often د, so that reading is discounted
+const CASUAL_READINGS: (Reading & { piece: string; finalOnly: boolean })[] = [
+  { piece: "e", unit: "ے", learnedPiece: "ay", likelihood: 1, finalOnly: true },
+  { piece: "e", unit: "ہ", learnedPiece: "eh", likelihood: 1, finalOnly: true },
+  { piece: "d", unit: "ڑ", learnedPiece: "r", likelihood: 0.1, finalOnly: false },
+  { piece: "dh", unit: "ڑھ", learnedPiece: "rh", likelihood: 0.1, finalOnly: false },
+]
+
+// Inside a word a lone "a" is usually an unwritten zabar; the lexicon's long vowels written "a" (kitab) would
+// otherwise put an alif into words like sadak
+const MEDIAL_ALIF_LIKELIHOOD = 0.1
+
+// Letters that can carry a vowel at the start of a word
+const WORD_INITIAL_CARRIERS = ["ا", "آ", "ع"]
+
+// Infinitive ending, and the imperfective endings that replace it (khelna: khelta, khelte, khelti)
+const INFINITIVE = ["نا", "na"]
+const IMPERFECTIVE_ENDINGS = [
+  ["تا", "ta"],
+  ["تے", "te"],
+  ["تی", "ti"],
+]
+
+// Always read as one aspirated letter (consonant + do-chashmi heh), whatever the model prefers. kh and gh also
+// spell خ and غ, so they are left to the model
+const ASPIRATES = /chh|[bdjprt]h/g
+
+/**
+ * Where aspirates start in a Roman word, mapped to where they end.
+ */
+function aspirateSpans(roman: string): Map<number, number> {
+  const spans = new Map<number, number>()
+  for (const match of Array.from(roman.matchAll(ASPIRATES))) {
+    spans.set(match.index!, match.index! + match[0].length)
+  }
+  return spans
+}
+
+// Units are modelled together with the vowel after them, so "ظ then ا" and "ظ + a" compete in context
+function spellingToken(unit: string, vowel: string): string {
+  return vowel ? `${unit}+${vowel}` : unit
+}
+
+class ConditionalCounts {
+  private counts: Map<string, Map<string, number>> = new Map()
+  private totals: Map<string, number> = new Map()
+
+  add(context: string, value: string) {
+    const bucket = this.counts.get(context) ?? new Map<string, number>()
+    bucket.set(value, (bucket.get(value) ?? 0) + 1)
+    this.counts.set(context, bucket)
+    this.totals.set(context, (this.totals.get(context) ?? 0) + 1)
+  }
+
+  has(context: string): boolean {
+    return this.counts.has(context)
+  }
+
+  probability(context: string, value: string): number {
+    const total = this.totals.get(context)
+    return total ? (this.counts.get(context)?.get(value) ?? 0) / total : 0
+  }
+
+  values(context: string): string[] {
+    return Array.from(this.counts.get(context)?.keys() ?? [])
+  }
+
+  clear() {
+    this.counts.clear()
+    this.totals.clear()
+  }
+}
+
+interface Reading {
+  unit: string
+  // The piece the lexicon spells the unit with
+  learnedPiece: string
+  // Discount on readings the lexicon does not support as well as it suggests
+  likelihood: number
+}
+
+interface Path {
+  score: number
+  units: SpelledUnit[]
+  // The last two spelling tokens, which condition the next one
+  history: [string, string]
+}
+
+export class SpellingModel {
+  // Unit -> Roman piece it was read from
+  private pieces = new ConditionalCounts()
+  // Unit -> unwritten short vowel after it
+  private vowels = new ConditionalCounts()
+  // Preceding spelling tokens -> next token
+  private spellings = new ConditionalCounts()
+  private unitsByPiece: Map<string, Set<string>> = new Map()
+  private longestPiece = 0
+  private trainedEntries = 0
+
+  get size(): number {
+    return this.trainedEntries
+  }
+
+  clear() {
+    this.pieces.clear()
+    this.vowels.clear()
+    this.spellings.clear()
+    this.unitsByPiece.clear()
+    this.longestPiece = 0
+    this.trainedEntries = 0
+  }
+
+  /**
+   * Aligns one single-word lexicon pair and records its readings. Returns false when the pair cannot be aligned.
+   */
+  train(urdu: string, roman: string): boolean {
+    if (/\s/.test(urdu) || !/^[a-z]+$/.test(roman)) return false
+    if (!this.trainSpelling(urdu, roman)) return false
+
+    // The lexicon lists verbs by their infinitive; the forms built on it are spelled the same way
+    if (urdu.endsWith(INFINITIVE[0]) && roman.endsWith(INFINITIVE[1])) {
+      IMPERFECTIVE_ENDINGS.forEach(([urduEnding, romanEnding]) =>
+        this.trainSpelling(
+          urdu.slice(0, -INFINITIVE[0].length) + urduEnding,
+          roman.slice(0, -INFINITIVE[1].length) + romanEnding,
+        ),
+      )
+    }
+
+    this.trainedEntries++
+    return true
+  }
+
+  private trainSpelling(urdu: string, roman: string): boolean {
+    const units = toUrduUnits(urdu)
+    const emissions = alignUnits(units, roman)
+    if (!emissions) return false
+
+    let history: [string, string] = [WORD_START, WORD_START]
+    units.forEach((unit, i) => {
+      const { core, vowel } = emissions[i]
+      // Letters without a sound of their own (initial alif, ain) are read from the vowel they carry, and
+      // silent ones (the hamza of bhai) from nothing
+      const piece = core || vowel
+      this.pieces.add(unit, piece)
+      if (i === units.length - 1) this.pieces.add(unit + WORD_END, piece)
+      this.vowels.add(unit, core ? vowel : "")
+      this.unitsByPiece.set(piece, (this.unitsByPiece.get(piece) ?? new Set<string>()).add(unit))
+      this.longestPiece = Math.max(this.longestPiece, piece.length)
+
+      const token = spellingToken(unit, core ? vowel : "")
+      this.addSpelling(history, token)
+      history = [history[1], token]
+    })
+    this.addSpelling(history, WORD_END)
+    return true
+  }
+
+  /**
+   * Most likely Urdu spelling of a lowercase Roman word, one entry per unit. Returns null when the word
+   * contains pieces never seen in training, or cannot be spelled within the fixed readings: an initial "aa"
+   * is always آ, a final "e" always ے or ہ and an aspirate (bh, rh, chh, ...) always one aspirated unit.
+   * `typed` fixes the letter that starts a unit at given positions (a typed capital, casual T for ٹ).
+   */
+  decode(roman: string, typed: Map<number, string> = new Map()): SpelledUnit[] | null {
+    if (!this.trainedEntries || !/^[a-z]+$/.test(roman)) return null
+
+    const aspirates = aspirateSpans(roman)
+    const fixedReading = (start: number, piece: string, unit: string): boolean => {
+      const end = start + piece.length
+      if (typed.has(start) && unit[0] !== typed.get(start)) return false
+      if (Array.from(typed.keys()).some((at) => at > start && at < end)) return false
+      if (start === 0 && roman.startsWith("aa")) return unit === "آ" && piece === "aa"
+      // A word that starts with a vowel starts with its carrier
+      if (start === 0 && /^[aeiou]/.test(roman)) return WORD_INITIAL_CARRIERS.includes(unit[0])
+      if (end === roman.length && piece === "e") return unit === "ے" || unit === "ہ"
+      if (aspirates.has(start)) return aspirates.get(start) === end && unit.length === 2 && unit[1] === "ھ"
+      // An aspirated unit is read with its h
+      if (unit.length === 2 && unit[1] === "ھ" && !piece.includes("h")) return false
+      // A piece may not end inside an aspirate
+      return Array.from(aspirates).every(([from, to]) => end <= from || end >= to || start >= to)
+    }
+
+    // Best path ending at each position, per pair of last units
+    const best: Map<string, Path>[] = Array.from({ length: roman.length + 1 }, () => new Map())
+    best[0].set("", { score: 0, units: [], history: [WORD_START, WORD_START] })
+
+    for (let j = 0; j < roman.length; j++) {
+      for (const path of best[j].values()) {
+        // A silent unit reads nothing, so two in a row would never end
+        const minLength = path.units.length > 0 && path.units[path.units.length - 1].piece === "" ? 1 : 0
+        for (let length = minLength; length <= this.longestPiece && j + length <= roman.length; length++) {
+          const piece = roman.slice(j, j + length)
+          const isFinal = j + length === roman.length
+
+          for (const { unit, learnedPiece, likelihood } of this.readingsOf(piece, j === 0, isFinal)) {
+            if (!fixedReading(j, piece, unit)) continue
+            for (const vowel of this.vowels.values(unit)) {
+              for (const [spelling, spellingLikelihood] of Object.entries(VOWEL_SPELLINGS[vowel] ?? { [vowel]: 1 })) {
+                if (!roman.startsWith(spelling, j + length)) continue
+
+                const end = j + length + spelling.length
+                // A vowel that ends a word is always written
+                if (vowel && end === roman.length) continue
+                const token = spellingToken(unit, vowel)
+                const score =
+                  path.score +
+                  Math.log(this.readingProbability(unit, learnedPiece, isFinal) * likelihood * spellingLikelihood) +
+                  Math.log(this.spellingProbability(path.history, token))
+                const history: [string, string] = [path.history[1], token]
+                const key = history.join("|")
+                const current = best[end].get(key)
+
+                if (!current || score > current.score) {
+                  best[end].set(key, { score, units: [...path.units, { unit, piece, vowel }], history })
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+
+    let result: Path | null = null
+    let resultScore = -Infinity
+    for (const path of best[roman.length].values()) {
+      const score = path.score + Math.log(this.spellingProbability(path.history, WORD_END))
+      if (score > resultScore) {
+        result = path
+        resultScore = score
+      }
+    }
+
+    return result ? result.units : null
+  }
+
+  /**
+   * Units a Roman piece can spell, with the piece the lexicon spells each with.
+   */
+  private readingsOf(piece: string, isInitial: boolean, isFinal: boolean): Reading[] {
+    const readings: Reading[] = Array.from(this.unitsByPiece.get(piece) ?? [], (unit) => ({
+      unit,
+      learnedPiece: piece,
+      likelihood: unit === "ا" && piece === "a" && !isInitial && !isFinal ? MEDIAL_ALIF_LIKELIHOOD : 1,
+    }))
+    CASUAL_READINGS.forEach(({ piece: casualPiece, finalOnly, ...reading }) => {
+      if (casualPiece === piece && (isFinal || !finalOnly)) readings.push(reading)
+    })
+    return readings
+  }
+
+  /**
+   * How likely the unit is to be read from the piece. A word's last unit is scored by how last units read
+   * (bhai ends in ئی, not in a ی read "ai" as in kaisa), when such readings were seen.
+   */
+  private readingProbability(unit: string, piece: string, isFinal: boolean): number {
+    const context = isFinal && this.pieces.has(unit + WORD_END) ? unit + WORD_END : unit
+    return this.pieces.probability(context, piece)
+  }
+
+  private addSpelling([before, previous]: [string, string], unit: string) {
+    this.contextKeys(before, previous).forEach((key) => this.spellings.add(key, unit))
+  }
+
+  /**
+   * Interpolated trigram estimate, using only the contexts seen in training.
+   */
+  private spellingProbability([before, previous]: [string, string], unit: string): number {
+    let probability = 0
+    let weight = 0
+
+    this.contextKeys(before, previous).forEach((key, level) => {
+      if (!this.spellings.has(key)) return
+      probability += CONTEXT_WEIGHTS[level] * this.spellings.probability(key, unit)
+      weight += CONTEXT_WEIGHTS[level]
+    })
+
+    return (weight ? probability / weight : 0) + UNSEEN_PROBABILITY
+  }
+
+  private contextKeys(before: string, previous: string): string[] {
+    return [`3|${before}|${previous}`, `2|${previous}`, "1"]
+  }
+}
@@ -0,0 +1,93 @@
+// Strict-mode validation: characters the rule-based maps could not convert and copied through verbatim
+
+import { isDigit } from "@/lib/digits"
+import { isPunctuation } from "@/lib/punctuation"
+import type { TransliterationResult } from "@/lib/transliteration"
+import type { TransliterationDirection } from "@/lib/transliteration-pipeline"
+import type { RomanizationScheme } from "@/lib/romanization-schemes"
+
+export interface UnmappedCharacter {
+  char: string
+  codePoint: number
+  // Offset into the text as it was given, before pre-processing
+  offset: number
+  // The word or phrase the character belongs to
+  token: string
+}
+
+// Every Latin letter is spelled by the English letter-to-sound rules
+const ENGLISH_LETTERS = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ"
+
+// Zero-width joiners and direction marks shape Urdu text without being letters, and ASCII symbols (@, #, %, &)
+// are written the same in both scripts
+const PASS_THROUGH = /^(?:[\u200C-\u200F\u2060\uFEFF]|[!-/:-@\[-`{-~])$/
+
+const alphabets = new Map<string, Set<string>>()
+
+/**
+ * The source characters the rule-based maps convert in this direction: Urdu letters and ھ for the scheme's
+ * Urdu→Roman table, the letters of its Roman spellings for Roman→Urdu.
+ */
+function sourceAlphabet(direction: TransliterationDirection, scheme: RomanizationScheme): Set<string> {
+  const key = direction === "english-to-urdu" ? direction : `${direction}:${scheme.id}`
+  if (!alphabets.has(key)) {
+    let chars: string[]
+    if (direction === "english-to-urdu") {
+      chars = Array.from(ENGLISH_LETTERS)
+    } else if (direction === "urdu-to-roman") {
+      chars = [...Object.keys(scheme.letters), "ھ"]
+    } else {
+      const spellings = [...Object.keys(scheme.toUrdu), "aeiou"]
+      chars = spellings.flatMap((roman) => Array.from(scheme.caseSensitive ? roman : roman + roman.toUpperCase()))
+    }
+    alphabets.set(key, new Set(chars))
+  }
+  return alphabets.get(key)!
+}
+
+export function formatCodePoint(codePoint: number): string {
+  return "U+" + codePoint.toString(16).toUpperCase().padStart(4, "0")
+}
+
+export class StrictModeError extends Error {
+  constructor(public readonly unmapped: UnmappedCharacter[]) {
+    const listed = unmapped
+      .slice(0, 5)
+      .map((entry) => `${formatCodePoint(entry.codePoint)} "${entry.char}" at ${entry.offset}`)
+      .join(", ")
+    const more = unmapped.length > 5 ? `, and ${unmapped.length - 5} more` : ""
+    super(`Strict mode: ${unmapped.length} unmapped character(s): ${listed}${more}`)
+    this.name = "StrictModeError"
+  }
+}
+
+/**
+ * Lists the source characters of rule-based and untransliterated tokens that were copied to the output
+ * unconverted. A rule-based character is unmapped when the scheme has no mapping for it and it reached the output
+ * as it was; characters the engine normalizes to a mapped letter are not reported. Every character of an
+ * untransliterated word is. Joiners, ASCII symbols and lexicon, number and punctuation tokens are never reported.
+ */
+export function findUnmappedCharacters(
+  result: TransliterationResult,
+  direction: TransliterationDirection,
+  scheme: RomanizationScheme,
+): UnmappedCharacter[] {
+  const alphabet = sourceAlphabet(direction, scheme)
+  const unmapped: UnmappedCharacter[] = []
+
+  for (const token of result.tokens) {
+    if (token.method !== "rule-based" && token.method !== "untransliterated") continue
+
+    let index = 0
+    for (const char of Array.from(token.sourceText)) {
+      const offset = token.source.start + index
+      index += char.length
+      if (/\s/.test(char) || isDigit(char) || isPunctuation(char) || PASS_THROUGH.test(char)) continue
+      if (token.method === "rule-based" && (alphabet.has(char) || !token.outputText.includes(char))) continue
+
+      unmapped.push({ char, codePoint: char.codePointAt(0)!, offset, token: token.sourceText })
+    }
+  }
+
+  return unmapped
+}
@@ -0,0 +1,235 @@
+// Client for the transliteration worker. Requests are promises that can be cancelled with an AbortSignal;
+// where workers are unavailable (server rendering, old browsers, a worker that fails to start) the same
+// pipeline runs on the main thread instead.
+
+import {
+  transliterationEngine,
+  type LexiconLoadStatus,
+  type PackLexiconEntry,
+  type TransliterationResult,
+} from "@/lib/transliteration"
+import {
+  loadLexiconEntries,
+  transliterateWithOptions,
+  batchTransliterateWithOptions,
+  TransliterationCancelledError,
+  type TransliterationDirection,
+} from "@/lib/transliteration-pipeline"
+import { transliterateFileStream, type TransliterationStreamStats } from "@/lib/transliteration-stream"
+import { StrictModeError } from "@/lib/strict-mode"
+import type { UserDictionaryEntry } from "@/lib/user-dictionary"
+import type { SerializedError, WorkerRequest, WorkerResponse } from "@/lib/worker-protocol"
+import type { TranslationOptions } from "@/components/translation-settings"
+
+export interface TransliterationRequestOptions {
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+}
+
+export interface FileRequestOptions extends TransliterationRequestOptions {
+  // Receives the output in order, a slice at a time
+  onChunk: (text: string, stats: TransliterationStreamStats) => void
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: number) => void
+  onChunk?: (text: string, stats: TransliterationStreamStats) => void
+}
+
+// Requests that carry an id, minus the id the client assigns
+type IdentifiedRequest = Exclude<WorkerRequest, { type: "set-user-dictionary" } | { type: "cancel" }>
+type RequestBody<T extends IdentifiedRequest = IdentifiedRequest> = T extends unknown ? Omit<T, "id"> : never
+
+function postRequest(worker: Worker, request: WorkerRequest) {
+  worker.postMessage(request)
+}
+
+function deserializeError(error: SerializedError): Error {
+  if (error.name === "StrictModeError" && error.unmapped) return new StrictModeError(error.unmapped)
+
+  const restored = new Error(error.message)
+  restored.name = error.name
+  return restored
+}
+
+export class TransliterationClient {
+  private worker: Worker | null = null
+  // Set once starting the worker has failed, so later requests go straight to the main thread
+  private workerUnavailable = false
+  private nextId = 1
+  private pending = new Map<number, PendingRequest>()
+  // Replayed to a worker started after the dictionary was set
+  private userEntries: UserDictionaryEntry[] = []
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerUnavailable) return this.worker
+
+    if (typeof Worker === "undefined") {
+      this.workerUnavailable = true
+      return null
+    }
+
+    try {
+      this.worker = new Worker(new URL("./transliteration-worker.ts", import.meta.url))
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleResponse(event.data)
+      this.worker.onerror = (event) => this.handleWorkerFailure(event.message || "Transliteration worker failed")
+      postRequest(this.worker, { type: "set-user-dictionary", entries: this.userEntries })
+    } catch (error) {
+      console.warn("Transliteration worker could not be started, running on the main thread:", error)
+      this.workerUnavailable = true
+      this.worker = null
+    }
+    return this.worker
+  }
+
+  private handleResponse(response: WorkerResponse) {
+    const request = this.pending.get(response.id)
+    if (!request) return
+
+    if (response.type === "progress") {
+      request.onProgress?.(response.progress)
+      return
+    }
+    if (response.type === "file-chunk") {
+      request.onChunk?.(response.text, response.stats)
+      return
+    }
+
+    this.pending.delete(response.id)
+    switch (response.type) {
+      case "loaded":
+        request.resolve(response.status)
+        break
+      case "lexicon-entries":
+        request.resolve(response.entries)
+        break
+      case "result":
+        request.resolve(response.result)
+        break
+      case "batch-result":
+        request.resolve(response.results)
+        break
+      case "file-result":
+        request.resolve(response.stats)
+        break
+      case "error":
+        request.reject(deserializeError(response.error))
+        break
+      case "cancelled":
+        request.reject(new TransliterationCancelledError())
+        break
+    }
+  }
+
+  // An uncaught error in the worker strands its requests, so they are failed and later ones run locally
+  private handleWorkerFailure(message: string) {
+    console.warn("Transliteration worker stopped, running on the main thread:", message)
+    this.worker?.terminate()
+    this.worker = null
+    this.workerUnavailable = true
+
+    const stranded = Array.from(this.pending.values())
+    this.pending.clear()
+    stranded.forEach((request) => request.reject(new Error(message)))
+  }
+
+  private send<T>(
+    body: RequestBody,
+    requestOptions: TransliterationRequestOptions & Pick<PendingRequest, "onChunk">,
+    runLocally: (isCancelled: () => boolean) => Promise<T>,
+  ): Promise<T> {
+    const { onProgress, onChunk, signal } = requestOptions
+    if (signal?.aborted) return Promise.reject(new TransliterationCancelledError())
+
+    const worker = this.getWorker()
+    if (!worker) return runLocally(() => signal?.aborted ?? false)
+
+    const id = this.nextId++
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (!this.pending.has(id)) return
+        postRequest(worker, { type: "cancel", id })
+      }
+
+      this.pending.set(id, {
+        resolve: (value) => {
+          signal?.removeEventListener("abort", onAbort)
+          // The response type matches the request that was sent
+          resolve(value as T)
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort)
+          reject(error)
+        },
+        onProgress,
+        onChunk,
+      })
+      signal?.addEventListener("abort", onAbort)
+      postRequest(worker, { ...body, id } as WorkerRequest)
+    })
+  }
+
+  /**
+   * Loads the given lexicon packs ahead of the first request that needs them.
+   */
+  load(packIds: string[]): Promise<LexiconLoadStatus> {
+    return this.send({ type: "load", packIds }, {}, async () => {
+      await transliterationEngine.setLexiconPacks(packIds)
+      return transliterationEngine.getLexiconStatus()
+    })
+  }
+
+  /**
+   * The entries of the given lexicon packs, loaded where transliteration runs so the main thread never builds
+   * the engine's models. `retry` loads a failed selection again now.
+   */
+  lexiconEntries(packIds: string[], retry = false): Promise<PackLexiconEntry[]> {
+    return this.send({ type: "lexicon-entries", packIds, retry }, {}, () => loadLexiconEntries(packIds, retry))
+  }
+
+  setUserDictionary(entries: UserDictionaryEntry[]) {
+    this.userEntries = entries
+    if (this.worker) postRequest(this.worker, { type: "set-user-dictionary", entries })
+  }
+
+  transliterate(
+    text: string,
+    direction: TransliterationDirection,
+    options: TranslationOptions,
+    requestOptions: TransliterationRequestOptions = {},
+  ): Promise<TransliterationResult> {
+    return this.send({ type: "transliterate", text, direction, options }, requestOptions, (isCancelled) =>
+      transliterateWithOptions(text, direction, options, { onProgress: requestOptions.onProgress, isCancelled }),
+    )
+  }
+
+  batch(
+    texts: string[],
+    direction: TransliterationDirection,
+    options: TranslationOptions,
+    requestOptions: TransliterationRequestOptions = {},
+  ): Promise<TransliterationResult[]> {
+    return this.send({ type: "batch", texts, direction, options }, requestOptions, (isCancelled) =>
+      batchTransliterateWithOptions(texts, direction, options, { onProgress: requestOptions.onProgress, isCancelled }),
+    )
+  }
+
+  /**
+   * Transliterates a plain-text file as a stream, however large, passing the output to `onChunk` as it is
+   * produced. Resolves with the stats for the whole file.
+   */
+  transliterateFile(
+    file: Blob,
+    direction: TransliterationDirection,
+    options: TranslationOptions,
+    requestOptions: FileRequestOptions,
+  ): Promise<TransliterationStreamStats> {
+    return this.send({ type: "transliterate-file", file, direction, options }, requestOptions, (isCancelled) =>
+      transliterateFileStream(file, direction, options, { ...requestOptions, isCancelled }),
+    )
+  }
+}
+
+export const transliterationClient = new TransliterationClient()
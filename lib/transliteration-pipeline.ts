@@ -0,0 +1,304 @@
+// Transliteration with the user's options applied: pre-processing, strategy, strict mode and output formatting.
+// Runs wherever the engine does, which is the transliteration worker or, without one, the main thread.
+
+import {
+  transliterationEngine,
+  concatResults,
+  mapTokenOutputs,
+  type PackLexiconEntry,
+  type TransliterationResult,
+  type TransliterationStrategy,
+} from "@/lib/transliteration"
+import { StrictModeError, findUnmappedCharacters } from "@/lib/strict-mode"
+import { resolvePhoneticRules } from "@/lib/phonetic-rules"
+import { ROMANIZATION_SCHEMES } from "@/lib/romanization-schemes"
+import type { TranslationOptions } from "@/components/translation-settings"
+
+export type TransliterationDirection = "urdu-to-roman" | "roman-to-urdu" | "english-to-urdu"
+
+export const DIRECTION_LABELS: Record<TransliterationDirection, string> = {
+  "urdu-to-roman": "Urdu → Roman",
+  "roman-to-urdu": "Roman → Urdu",
+  "english-to-urdu": "English → Urdu",
+}
+
+// What Swap turns each direction into; Urdu output of English is read back as Urdu
+export const SWAPPED_DIRECTIONS: Record<TransliterationDirection, TransliterationDirection> = {
+  "urdu-to-roman": "roman-to-urdu",
+  "roman-to-urdu": "urdu-to-roman",
+  "english-to-urdu": "urdu-to-roman",
+}
+
+export interface TransliterationControl {
+  // Percentage of the text transliterated so far
+  onProgress?: (progress: number) => void
+  isCancelled?: () => boolean
+}
+
+export class TransliterationCancelledError extends Error {
+  constructor() {
+    super("Transliteration was cancelled")
+    this.name = "TransliterationCancelledError"
+  }
+}
+
+// Texts longer than this are transliterated in slices, with progress reported and cancellation checked in between
+export const CHUNK_SIZE = 2000
+
+/**
+ * Whether the text is encoded as-is by a reversible romanization scheme. Schemes spell Roman Urdu, so they
+ * never apply to English input.
+ */
+export function isReversible(direction: TransliterationDirection, options: TranslationOptions): boolean {
+  return direction !== "english-to-urdu" && ROMANIZATION_SCHEMES[options.romanizationScheme].reversible
+}
+
+/**
+ * The entries of the given lexicon packs as loaded, for browsing. `retry` loads a failed selection again
+ * without waiting for the retry delay.
+ */
+export async function loadLexiconEntries(packIds: string[], retry = false): Promise<PackLexiconEntry[]> {
+  await transliterationEngine.setLexiconPacks(packIds)
+  if (retry) await transliterationEngine.retryLexicon()
+
+  const status = transliterationEngine.getLexiconStatus()
+  if (status.state === "failed") throw new Error(status.error)
+  return transliterationEngine.getLexiconEntries()
+}
+
+function transliterateChunk(
+  text: string,
+  direction: TransliterationDirection,
+  strategy: TransliterationStrategy,
+): Promise<TransliterationResult> {
+  switch (direction) {
+    case "urdu-to-roman":
+      return transliterationEngine.transliterateUrduToRoman(text, strategy)
+    case "roman-to-urdu":
+      return transliterationEngine.transliterateRomanToUrdu(text, strategy)
+    case "english-to-urdu":
+      return transliterationEngine.transliterateEnglishToUrdu(text, strategy)
+  }
+}
+
+function applyTextProcessing(text: string, options: TranslationOptions): string {
+  let processedText = text
+
+  // Handle formatting preservation
+  if (!options.preserveFormatting) {
+    processedText = processedText.replace(/\s+/g, " ").trim()
+  }
+
+  // Apply normalization if enabled
+  if (options.normalizeText) {
+    // Additional normalization can be added here
+    processedText = processedText.normalize("NFC")
+  }
+
+  return processedText
+}
+
+/**
+ * Maps offsets in pre-processed text back to the text it came from. The two may differ only in whitespace runs
+ * (collapsed, trimmed or added) and in the normalization of the words between them.
+ */
+export function traceOffsets(original: string, processed: string): (offset: number) => number {
+  const origins: number[] = []
+  let i = 0
+  let j = 0
+
+  while (j < processed.length) {
+    if (/\s/.test(processed[j])) {
+      // A whitespace run stands for the original run at the same place, if there is one
+      const run = original.slice(i).match(/^\s*/)![0]
+      while (j < processed.length && /\s/.test(processed[j])) origins[j++] = i
+      i += run.length
+      continue
+    }
+
+    // Whitespace trimmed from the start has no counterpart
+    while (i < original.length && /\s/.test(original[i])) i++
+    const word = original.slice(i).match(/^\S*/)![0]
+    const processedWord = processed.slice(j).match(/^\S*/)![0]
+
+    // Normalization can merge characters, so each one is traced to the prefix of the word that produces it
+    const prefixLengths = Array.from({ length: word.length + 1 }, (_, q) =>
+      word === processedWord ? q : word.slice(0, q).normalize("NFC").length,
+    )
+    let q = 0
+    for (let k = 0; k < processedWord.length; k++) {
+      while (q < word.length && prefixLengths[q + 1] <= k) q++
+      origins[j + k] = i + q
+    }
+
+    i += word.length
+    j += processedWord.length
+  }
+
+  return (offset) => origins[offset] ?? original.length
+}
+
+export function buildStrategy(options: TranslationOptions): TransliterationStrategy {
+  return {
+    preferredMethod: options.preferredMethod,
+    handleDiacritics: options.handleDiacritics,
+    digitConversion: options.digitConversion,
+    punctuation: options.punctuationHandling,
+    phoneticRules: options.enablePhoneticRules
+      ? resolvePhoneticRules(options.disabledPhoneticRules, options.customPhoneticRules)
+      : [],
+    scheme: ROMANIZATION_SCHEMES[options.romanizationScheme],
+    fuzzyMatching: options.fuzzyMatching,
+    englishWords: options.englishWords,
+  }
+}
+
+function applyOutputFormatting(text: string, options: TranslationOptions): string {
+  let formattedText = text
+
+  // Apply case transformation
+  switch (options.outputCase) {
+    case "lowercase":
+      formattedText = formattedText.toLowerCase()
+      break
+    case "uppercase":
+      formattedText = formattedText.toUpperCase()
+      break
+    case "title":
+      formattedText = formattedText.replace(
+        /\w\S*/g,
+        (txt) => txt.charAt(0).toUpperCase() + txt.substr(1).toLowerCase(),
+      )
+      break
+    // "preserve" is default - no change needed
+  }
+
+  return formattedText
+}
+
+function checkQualityThreshold(result: TransliterationResult, options: TranslationOptions): TransliterationResult {
+  const confidencePercentage = Math.round(result.confidence * 100)
+
+  // Add quality warning if below threshold
+  if (confidencePercentage < options.qualityThreshold && options.showIncompleteWarnings) {
+    console.warn(`Translation confidence (${confidencePercentage}%) below threshold (${options.qualityThreshold}%)`)
+  }
+
+  return result
+}
+
+/**
+ * Splits text into slices of roughly `size` characters that end after whitespace, preferring line breaks,
+ * so no word is cut in two. Joined, the slices give back the text.
+ */
+export function splitIntoChunks(text: string, size = CHUNK_SIZE): string[] {
+  const chunks: string[] = []
+  let start = 0
+
+  while (text.length - start > size) {
+    const window = text.slice(start, start + size)
+    const lineBreak = window.lastIndexOf("\n")
+    const space = window.search(/\s\S*$/)
+    const cut = lineBreak > 0 ? lineBreak + 1 : space > 0 ? space + 1 : size
+
+    chunks.push(text.slice(start, start + cut))
+    start += cut
+  }
+
+  chunks.push(text.slice(start))
+  return chunks
+}
+
+export async function transliterateWithOptions(
+  text: string,
+  direction: TransliterationDirection,
+  options: TranslationOptions,
+  control: TransliterationControl = {},
+): Promise<TransliterationResult> {
+  const { onProgress, isCancelled } = control
+
+  // Reversible schemes encode the text exactly as given, so neither side is reformatted
+  const reversible = isReversible(direction, options)
+
+  // Pre-process text according to options
+  const processedText = reversible ? text : applyTextProcessing(text, options)
+
+  // Debug logging if enabled
+  if (options.debugMode) {
+    console.log("[Debug] Original text:", text)
+    console.log("[Debug] Processed text:", processedText)
+    console.log("[Debug] Options:", options)
+  }
+
+  // Perform transliteration using the core engine, with the selected lexicon packs loaded
+  const strategy = buildStrategy(options)
+  await transliterationEngine.setLexiconPacks(options.lexiconPacks)
+
+  const chunks = splitIntoChunks(processedText)
+  const parts: TransliterationResult[] = []
+
+  for (const chunk of chunks) {
+    if (isCancelled?.()) throw new TransliterationCancelledError()
+
+    parts.push(await transliterateChunk(chunk, direction, strategy))
+
+    if (chunks.length > 1) {
+      onProgress?.((parts.length / chunks.length) * 100)
+      // Lets a cancel message arrive before the next slice
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+  }
+
+  const result = parts.length === 1 ? parts[0] : concatResults(parts)
+
+  // Strict mode fails instead of returning mixed-script output
+  if (options.strictMode) {
+    const unmapped = findUnmappedCharacters(result, direction, strategy.scheme)
+    if (unmapped.length > 0) {
+      const toSource = traceOffsets(text, processedText)
+      throw new StrictModeError(unmapped.map((entry) => ({ ...entry, offset: toSource(entry.offset) })))
+    }
+  }
+
+  // Apply output formatting token by token so output spans stay aligned
+  const enhancedResult = reversible
+    ? result
+    : mapTokenOutputs(result, (outputText) => applyOutputFormatting(outputText, options))
+
+  // Check quality threshold
+  const finalResult = checkQualityThreshold(enhancedResult, options)
+
+  // Debug logging if enabled
+  if (options.debugMode) {
+    console.log("[Debug] Translation result:", finalResult)
+    console.log("[Debug] Method used:", finalResult.method)
+    console.log("[Debug] Completeness:", finalResult.completeness)
+    console.log("[Debug] Confidence:", finalResult.confidence)
+  }
+
+  return finalResult
+}
+
+/**
+ * Transliterates the texts one after another, reporting progress across the whole batch.
+ */
+export async function batchTransliterateWithOptions(
+  texts: string[],
+  direction: TransliterationDirection,
+  options: TranslationOptions,
+  control: TransliterationControl = {},
+): Promise<TransliterationResult[]> {
+  const results: TransliterationResult[] = []
+
+  for (const [index, text] of texts.entries()) {
+    results.push(
+      await transliterateWithOptions(text, direction, options, {
+        isCancelled: control.isCancelled,
+        onProgress: (progress) => control.onProgress?.(((index + progress / 100) / texts.length) * 100),
+      }),
+    )
+    control.onProgress?.((results.length / texts.length) * 100)
+  }
+
+  return results
+}
@@ -0,0 +1,227 @@
+// Streaming transliteration: text arrives in chunks of any size and leaves as output chunks with running
+// totals, so a document never has to be held in memory whole.
+//
+// Input is cut only after whitespace, carrying a partial word over to the next chunk, and each slice goes
+// through the same options pipeline as a single string.
+
+import type { TransliterationResult, TransliterationSummary } from "@/lib/transliteration"
+import {
+  transliterateWithOptions,
+  isReversible,
+  splitIntoChunks,
+  traceOffsets,
+  TransliterationCancelledError,
+  type TransliterationControl,
+  type TransliterationDirection,
+} from "@/lib/transliteration-pipeline"
+import { StrictModeError } from "@/lib/strict-mode"
+import type { TranslationOptions } from "@/components/translation-settings"
+
+// Untransliterated words kept in the running stats; the count covers all of them
+const MAX_REPORTED_PARTS = 100
+
+export interface TransliterationStreamStats extends TransliterationSummary {
+  // Characters of (pre-processed) source text transliterated so far
+  sourceLength: number
+}
+
+export interface TransliterationStreamChunk {
+  text: string
+  // The slice this output came from, with its tokens
+  result: TransliterationResult
+  stats: TransliterationStreamStats
+}
+
+/**
+ * Running totals over the slices of a stream. Confidence is averaged over word tokens, as for a single text.
+ */
+class StreamStats {
+  private sourceLength = 0
+  // Words are counted as for a whole text, originalText.split(/\s+/).length: one more than the whitespace
+  // runs, where a run that spans two slices counts once
+  private whitespaceRuns = 0
+  private endsInWhitespace = false
+  private untransliteratedCount = 0
+  private untransliteratedParts: string[] = []
+  private confidenceSum = 0
+  private scoredWords = 0
+  private methods = new Set<TransliterationResult["method"]>()
+
+  add(result: TransliterationResult) {
+    const words = result.tokens.filter((token) => token.method !== "punctuation")
+
+    const text = result.originalText
+    if (text) {
+      this.whitespaceRuns += (text.match(/\s+/g) ?? []).length - (this.endsInWhitespace && /^\s/.test(text) ? 1 : 0)
+      this.endsInWhitespace = /\s$/.test(text)
+    }
+    this.sourceLength += text.length
+    this.untransliteratedCount += result.completeness.untransliteratedCount
+    this.untransliteratedParts.push(
+      ...result.completeness.untransliteratedParts.slice(0, MAX_REPORTED_PARTS - this.untransliteratedParts.length),
+    )
+    this.confidenceSum += words.reduce((sum, token) => sum + token.confidence, 0)
+    this.scoredWords += words.length
+    if (result.tokens.length > 0) this.methods.add(result.method)
+  }
+
+  snapshot(): TransliterationStreamStats {
+    return {
+      sourceLength: this.sourceLength,
+      method: this.methods.size > 1 ? "hybrid" : (Array.from(this.methods)[0] ?? "rule-based"),
+      confidence: this.scoredWords === 0 ? 1 : this.confidenceSum / this.scoredWords,
+      completeness: {
+        isComplete: this.untransliteratedCount === 0,
+        untransliteratedParts: [...this.untransliteratedParts],
+        totalWords: this.sourceLength === 0 ? 0 : this.whitespaceRuns + 1,
+        untransliteratedCount: this.untransliteratedCount,
+      },
+    }
+  }
+}
+
+/**
+ * Collapses whitespace across slice edges the way the pipeline does for a whole text when formatting is not
+ * preserved: runs become one space, and the ends of the stream are trimmed. A slice's trailing space is held
+ * back and put in front of the next slice that has text.
+ */
+function createWhitespaceCollapser() {
+  let started = false
+  let pendingSpace = false
+
+  return (slice: string): string => {
+    const text = slice.replace(/\s+/g, " ").trim()
+    const spaceBefore = pendingSpace || /^\s/.test(slice)
+
+    if (!text) {
+      pendingSpace = spaceBefore || slice.length > 0
+      return ""
+    }
+
+    const collapsed = (started && spaceBefore ? " " : "") + text
+    started = true
+    pendingSpace = /\s$/.test(slice)
+    return collapsed
+  }
+}
+
+/**
+ * Transliterates text as it arrives. Each output chunk carries the stats of everything transliterated so far;
+ * the last chunk's stats describe the whole text.
+ */
+export async function* transliterateStream(
+  source: AsyncIterable<string>,
+  direction: TransliterationDirection,
+  options: TranslationOptions,
+  control: Pick<TransliterationControl, "isCancelled"> = {},
+): AsyncGenerator<TransliterationStreamChunk> {
+  const collapse = !isReversible(direction, options) && !options.preserveFormatting ? createWhitespaceCollapser() : null
+  // Whitespace is handled here, across slices, so the pipeline must leave each slice's as it is
+  const sliceOptions: TranslationOptions = { ...options, preserveFormatting: true }
+  const stats = new StreamStats()
+  // Length of the source read so far, before whitespace is collapsed
+  let sourceOffset = 0
+
+  async function transliterateSlice(raw: string): Promise<TransliterationStreamChunk | null> {
+    if (control.isCancelled?.()) throw new TransliterationCancelledError()
+
+    const slice = collapse ? collapse(raw) : raw
+    const sliceOffset = sourceOffset
+    sourceOffset += raw.length
+    if (!slice) return null
+
+    let result: TransliterationResult
+    try {
+      result = await transliterateWithOptions(slice, direction, sliceOptions, control)
+    } catch (error) {
+      // Offsets are relative to the collapsed slice; report them in the source stream
+      if (error instanceof StrictModeError) {
+        const toSource = traceOffsets(raw, slice)
+        throw new StrictModeError(
+          error.unmapped.map((entry) => ({ ...entry, offset: sliceOffset + toSource(entry.offset) })),
+        )
+      }
+      throw error
+    }
+
+    stats.add(result)
+    return { text: result.transliteratedText, result, stats: stats.snapshot() }
+  }
+
+  let buffer = ""
+  for await (const chunk of source) {
+    buffer += chunk
+
+    // The last piece may end mid-word, so it waits for more text
+    const pieces = splitIntoChunks(buffer)
+    buffer = pieces.pop()!
+    for (const piece of pieces) {
+      const output = await transliterateSlice(piece)
+      if (output) yield output
+    }
+  }
+
+  const output = await transliterateSlice(buffer)
+  if (output) yield output
+}
+
+/**
+ * Decodes a byte stream as UTF-8 text chunks. `onRead` receives the running count of bytes read.
+ */
+export async function* readTextChunks(
+  stream: ReadableStream<Uint8Array>,
+  onRead?: (bytes: number) => void,
+): AsyncGenerator<string> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder("utf-8")
+  let bytes = 0
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      bytes += value.byteLength
+      onRead?.(bytes)
+      const text = decoder.decode(value, { stream: true })
+      if (text) yield text
+    }
+
+    const rest = decoder.decode()
+    if (rest) yield rest
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export interface FileStreamControl extends TransliterationControl {
+  onChunk: (text: string, stats: TransliterationStreamStats) => void
+}
+
+/**
+ * Streams a plain-text file through the transliterator, reporting progress by bytes read.
+ * Resolves with the stats for the whole file.
+ */
+export async function transliterateFileStream(
+  file: Blob,
+  direction: TransliterationDirection,
+  options: TranslationOptions,
+  control: FileStreamControl,
+): Promise<TransliterationStreamStats> {
+  let bytesRead = 0
+  let stats: TransliterationStreamStats = {
+    sourceLength: 0,
+    method: "rule-based",
+    confidence: 1,
+    completeness: { isComplete: true, untransliteratedParts: [], totalWords: 0, untransliteratedCount: 0 },
+  }
+
+  const chunks = readTextChunks(file.stream(), (bytes) => (bytesRead = bytes))
+  for await (const chunk of transliterateStream(chunks, direction, options, control)) {
+    stats = chunk.stats
+    control.onChunk(chunk.text, chunk.stats)
+    control.onProgress?.(file.size === 0 ? 100 : (bytesRead / file.size) * 100)
+  }
+
+  return stats
+}
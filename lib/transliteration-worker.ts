@@ -0,0 +1,80 @@
+// Worker entry point: owns an engine instance so lexicon parsing and long transliterations stay off the main
+// thread. Started by TransliterationClient; see lib/worker-protocol.ts for the messages.
+
+import { transliterationEngine } from "@/lib/transliteration"
+import {
+  loadLexiconEntries,
+  transliterateWithOptions,
+  batchTransliterateWithOptions,
+  TransliterationCancelledError,
+} from "@/lib/transliteration-pipeline"
+import { transliterateFileStream } from "@/lib/transliteration-stream"
+import { StrictModeError } from "@/lib/strict-mode"
+import type { SerializedError, WorkerRequest, WorkerResponse } from "@/lib/worker-protocol"
+
+// Requests cancelled while they run; checked by the pipeline between slices of text
+const cancelled = new Set<number>()
+
+const post = (response: WorkerResponse) => self.postMessage(response)
+
+function serializeError(error: unknown): SerializedError {
+  if (error instanceof StrictModeError) {
+    return { name: error.name, message: error.message, unmapped: error.unmapped }
+  }
+  if (error instanceof Error) return { name: error.name, message: error.message }
+  return { name: "Error", message: String(error) }
+}
+
+async function handle(request: WorkerRequest) {
+  switch (request.type) {
+    case "cancel":
+      cancelled.add(request.id)
+      return
+
+    case "set-user-dictionary":
+      transliterationEngine.setUserDictionary(request.entries)
+      return
+
+    case "load":
+      await transliterationEngine.setLexiconPacks(request.packIds)
+      post({ type: "loaded", id: request.id, status: transliterationEngine.getLexiconStatus() })
+      return
+  }
+
+  const { id } = request
+  const control = {
+    onProgress: (progress: number) => post({ type: "progress", id, progress }),
+    isCancelled: () => cancelled.has(id),
+  }
+
+  try {
+    if (request.type === "lexicon-entries") {
+      const entries = await loadLexiconEntries(request.packIds, request.retry)
+      post({ type: "lexicon-entries", id, entries })
+    } else if (request.type === "transliterate") {
+      const result = await transliterateWithOptions(request.text, request.direction, request.options, control)
+      post({ type: "result", id, result })
+    } else if (request.type === "transliterate-file") {
+      const stats = await transliterateFileStream(request.file, request.direction, request.options, {
+        ...control,
+        onChunk: (text, chunkStats) => post({ type: "file-chunk", id, text, stats: chunkStats }),
+      })
+      post({ type: "file-result", id, stats })
+    } else {
+      const results = await batchTransliterateWithOptions(request.texts, request.direction, request.options, control)
+      post({ type: "batch-result", id, results })
+    }
+  } catch (error) {
+    post(
+      error instanceof TransliterationCancelledError
+        ? { type: "cancelled", id }
+        : { type: "error", id, error: serializeError(error) },
+    )
+  } finally {
+    cancelled.delete(id)
+  }
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  handle(event.data)
+}
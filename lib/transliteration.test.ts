@@ -0,0 +1,79 @@
+import { readFile } from "node:fs/promises"
+import { beforeAll, describe, expect, it, vi } from "vitest"
+import { ROMANIZATION_SCHEMES } from "@/lib/romanization-schemes"
+import { DEFAULT_STRATEGY, transliterationEngine } from "@/lib/transliteration"
+
+// Lexicon packs are read from public/ the way the app fetches them
+beforeAll(() => {
+  vi.stubGlobal("fetch", async (url: string) => {
+    try {
+      return new Response(new Uint8Array(await readFile(`public${url.split("?")[0]}`)))
+    } catch {
+      return new Response(null, { status: 404 })
+    }
+  })
+})
+
+async function toUrdu(text: string, strategy = DEFAULT_STRATEGY): Promise<string> {
+  return (await transliterationEngine.transliterateRomanToUrdu(text, strategy)).transliteratedText
+}
+
+async function toRoman(text: string, strategy = DEFAULT_STRATEGY): Promise<string> {
+  return (await transliterationEngine.transliterateUrduToRoman(text, strategy)).transliteratedText
+}
+
+describe("Urdu to Roman without harakat", () => {
+  it("reads the short vowels of common words", async () => {
+    expect(await toRoman("کتاب قلم کہ")).toBe("kitab qalam keh")
+  })
+
+  it("infers the same vowels without the lexicon lookup", async () => {
+    const ruleBased = { ...DEFAULT_STRATEGY, preferredMethod: "rule-based-only" as const }
+    expect(await toRoman("کتاب قلم کہ یعنی", ruleBased)).toBe("kitab qalam keh yaani")
+  })
+
+  it("keeps the marks that stand for letters when removing diacritics", async () => {
+    const remove = { ...DEFAULT_STRATEGY, handleDiacritics: "remove" as const }
+    expect(await toRoman("موسیٰ", remove)).toBe("mosaa")
+    expect(await toRoman("اعلیٰ", remove)).toBe("aala")
+    expect(await toRoman("فوراً", remove)).toBe("foran")
+    expect(await toRoman("قوّت", remove)).toBe("quwwat")
+    expect(await toRoman("قُوَّت", remove)).toBe("quwwat")
+  })
+})
+
+describe("Roman to Urdu for words missing from the lexicon", () => {
+  it("writes a final -e or -te as ے or تے", async () => {
+    expect(await toUrdu("karte larke samajhte bolte chalte khelte aate dekhte pe")).toBe(
+      "کرتے لڑکے سمجھتے بولتے چلتے کھیلتے آتے دیکھتے پے",
+    )
+  })
+
+  it("leaves a short a unwritten inside a word", async () => {
+    expect(await toUrdu("sadak")).toBe("سڑک")
+  })
+
+  it("reads a hyphenated izafat as two words", async () => {
+    expect(await toUrdu("kitab-e-zindagi")).toBe("کتاب زندگی")
+    const preserve = { ...DEFAULT_STRATEGY, handleDiacritics: "preserve" as const }
+    expect(await toUrdu("kitab-e-zindagi", preserve)).toBe("کتابِ زندگی")
+  })
+})
+
+describe("Romanization schemes", () => {
+  it("spells long vowels as one letter in scholarly schemes", async () => {
+    const words = "عام کیا دنیا عالم ٹوٹا ذرا چاہتے"
+    expect(await toRoman(words, { ...DEFAULT_STRATEGY, scheme: ROMANIZATION_SCHEMES["ala-lc"] })).toBe(
+      "ʻām kiyā duniyā ʻālim ṭūṭā ẕarā chāhte",
+    )
+    expect(await toRoman(words, { ...DEFAULT_STRATEGY, scheme: ROMANIZATION_SCHEMES["iso-15919"] })).toBe(
+      "ʿām kiyā duniyā ʿālim ṭūṭā ẕarā cāhtē",
+    )
+  })
+
+  it("reads back the casual capitals it writes", async () => {
+    expect(await toRoman("ٹوٹا ٹھیک")).toBe("TooTa theek")
+    expect(await toUrdu("TooTa")).toBe("ٹوٹا")
+    expect(await toUrdu("Tum")).toBe("تم")
+  })
+})
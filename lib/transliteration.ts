@@ -1,12 +1,225 @@
+import { VowelModel, isFlexibleUnit, toUrduUnits } from "@/lib/vowel-inference"
+import { SpellingModel, type SpelledUnit } from "@/lib/spelling-inference"
+import { FuzzyIndex, type FuzzyMatch } from "@/lib/fuzzy-matching"
+import { CharacterModel, documentConfidence, ruleBasedConfidence, tokenConfidence } from "@/lib/confidence"
+import type { UserDictionaryEntry } from "@/lib/user-dictionary"
+import { DEFAULT_LEXICON_PACKS, fetchLexiconPack, loadLexiconManifest } from "@/lib/lexicon-packs"
+import {
+  SHADDA,
+  VOWEL_MARKS,
+  ZER,
+  canonicalizeHarakat,
+  readHarakat,
+  type HarakatReading,
+  splitHarakat,
+  stripHarakat,
+  stripShortVowels,
+} from "@/lib/diacritics"
+import {
+  EASTERN_NUMBER_CHARS,
+  formatNumberAscii,
+  formatNumberUrdu,
+  isNumber,
+  toAsciiDigits,
+  toUrduDigits,
+  type DigitConversion,
+} from "@/lib/digits"
+import {
+  URDU_PUNCTUATION_CHARS,
+  convertPunctuation,
+  readDecimalPoints,
+  splitPunctuation,
+  type PunctuationHandling,
+} from "@/lib/punctuation"
+import { BUILT_IN_PHONETIC_RULES, applyPhoneticRules, type PhoneticRule } from "@/lib/phonetic-rules"
+import {
+  DEFAULT_SCHEME,
+  ROMANIZATION_SCHEMES,
+  readLongVowel,
+  spellFlexibleLetter,
+  spellVowel,
+  type RomanizationScheme,
+} from "@/lib/romanization-schemes"
+import { decodeReversible, encodeReversible } from "@/lib/reversible"
+import {
+  ENGLISH_MARKERS,
+  identifyWordLanguages,
+  type EnglishWordPolicy,
+  type IdentifiedLanguage,
+  type LanguageDecision,
+} from "@/lib/language-id"
+import { loadEnglishLoanwords } from "@/lib/english-lexicon"
+import { AMBIGUOUS_ENGLISH_WORDS, COMMON_ENGLISH_WORDS } from "@/lib/english-words"
+import { transliterateEnglishWord } from "@/lib/english-g2p"
+
 export interface LexiconEntry {
   urdu_script: string
   roman_urdu: string
+  // Optional frequency/preference weight; higher-weighted spellings rank first (defaults to 1)
+  weight?: number
+}
+
+// A lexicon entry as loaded, with the pack it came from
+export interface PackLexiconEntry extends LexiconEntry {
+  // 1, 2, ... for the enabled lexicon packs in priority order
+  priority: number
+  // The pack's Urdu→Roman output keeps the entry's capitalization
+  preserveCase?: boolean
+}
+
+// One spelling stored for a lexicon key; repeated entries accumulate weight
+export interface LexiconCandidate {
+  text: string
+  weight: number
+  // 0 for the user dictionary, then 1, 2, ... for the enabled lexicon packs in priority order
+  priority: number
+  // Comes from the user dictionary, which ranks ahead of the bundled lexicon
+  user?: boolean
+}
+
+type CandidateMap = Map<string, LexiconCandidate[]>
+
+/**
+ * Stores a spelling under a key, adding its weight to the same spelling stored before.
+ */
+export function addLexiconCandidate(
+  map: CandidateMap,
+  key: string,
+  text: string,
+  weight: number,
+  priority: number,
+  user = false,
+) {
+  const candidates = map.get(key) ?? []
+  const existing = candidates.find((candidate) => candidate.text === text)
+
+  if (existing) {
+    existing.weight += weight
+    existing.priority = Math.min(existing.priority, priority)
+    existing.user = existing.user || user || undefined
+  } else {
+    candidates.push(user ? { text, weight, priority, user } : { text, weight, priority })
+  }
+  map.set(key, candidates)
+}
+
+/**
+ * Order of the spellings stored for one key: user entries first, then packs by priority, then highest weight.
+ * Sorting is stable, so ties keep lexicon order.
+ */
+export function compareLexiconCandidates(a: LexiconCandidate, b: LexiconCandidate): number {
+  return a.priority - b.priority || b.weight - a.weight
+}
+
+export interface LexiconLoadStatus {
+  state: "idle" | "loading" | "ready" | "failed"
+  error?: string
+  // Consecutive failed loads of the current pack selection
+  attempts: number
+  // When a failed load may be tried again (ms since epoch); until then words go through the rules
+  retryAt?: number
+}
+
+// Failed loads are retried after 2s, 4s, 8s ... up to a minute, instead of on every translation
+const LEXICON_RETRY_BASE_MS = 2000
+const LEXICON_RETRY_MAX_MS = 60000
+
+export type PreferredMethod = "auto" | "lexicon-first" | "rule-based-first" | "lexicon-only" | "rule-based-only"
+
+export type DiacriticsHandling = "remove" | "preserve" | "normalize"
+
+// Per-call configuration consumed by the core engine
+export interface TransliterationStrategy {
+  // "lexicon-first" consults the lexicon, spelling variants included, before falling back to rules; "auto" does
+  // the same but keeps rule-based output over a spelling variant that scores no higher,
+  // "rule-based-first" only uses the lexicon when the rules leave characters unmapped
+  preferredMethod: PreferredMethod
+  // "remove" ignores harakat; "preserve" and "normalize" let them drive rule-based Urdu→Roman output,
+  // and "preserve" also writes short vowels and gemination as harakat in Roman→Urdu output
+  handleDiacritics: DiacriticsHandling
+  // "auto" reads both Eastern digit blocks as ASCII and writes Urdu digits in Roman→Urdu output,
+  // "arabic-to-english" always writes ASCII digits, "preserve" leaves digits as written
+  digitConversion: DigitConversion
+  // "convert" maps punctuation to the target script, "preserve" keeps the source punctuation, "remove" drops it
+  punctuation: PunctuationHandling
+  // Ordered post-processing rules for rule-based output; empty when phonetic rules are switched off
+  phoneticRules: PhoneticRule[]
+  // Roman spelling used for output (Urdu→Roman) and read from input (Roman→Urdu)
+  scheme: RomanizationScheme
+  // Roman words missing from the lexicon are matched to a close spelling variant before falling back to rules
+  fuzzyMatching: boolean
+  // What English words in Roman→Urdu input become (see lib/language-id.ts); English→Urdu writes them all in Urdu
+  englishWords: EnglishWordPolicy
+}
+
+export const DEFAULT_STRATEGY: TransliterationStrategy = {
+  preferredMethod: "auto",
+  handleDiacritics: "remove",
+  digitConversion: "auto",
+  punctuation: "convert",
+  phoneticRules: BUILT_IN_PHONETIC_RULES,
+  scheme: DEFAULT_SCHEME,
+  fuzzyMatching: true,
+  englishWords: "transliterate",
+}
+
+type WordMethod = "user-dictionary" | "lexicon" | "fuzzy-lexicon" | "rule-based" | "untransliterated"
+
+// Which path produced a token's output
+export type TokenSource =
+  | "user-dictionary"
+  | "phrase-lexicon"
+  | "word-lexicon"
+  | "fuzzy-lexicon"
+  | "loanword-lexicon"
+  | "rule-based"
+  // English word left in Latin script, as written or between markers
+  | "english"
+  | "number"
+  | "punctuation"
+  | "untransliterated"
+
+export interface TextSpan {
+  start: number
+  end: number
+}
+
+export interface TransliterationToken {
+  // Offsets into originalText
+  source: TextSpan
+  // Offsets into transliteratedText
+  output: TextSpan
+  sourceText: string
+  outputText: string
+  method: TokenSource
+  // The normalized form that was looked up in the lexicon
+  normalized: string
+  // Ranked lexicon spellings for this token, best first (empty when the lexicon had no entry)
+  alternatives: string[]
+  // The lexicon key a misspelled or variant Roman word was matched to (fuzzy-lexicon tokens only)
+  fuzzyMatch?: FuzzyMatch
+  // Which language a Roman word was taken to be, and what was done with it (Roman→Urdu word tokens only)
+  language?: LanguageDecision
+  // 0–1, how far the output can be trusted (see lib/confidence.ts)
+  confidence: number
+}
+
+// A token before it is scored and placed in the output
+type DraftToken = Omit<TransliterationToken, "output" | "confidence">
+
+interface SourceWord {
+  text: string
+  start: number
+  end: number
 }
 
 export interface TransliterationResult {
   originalText: string
   transliteratedText: string
   method: "lexicon" | "rule-based" | "hybrid"
+  tokens: TransliterationToken[]
+  // 0–1, the average confidence of the word tokens
+  confidence: number
   completeness: {
     isComplete: boolean
     untransliteratedParts: string[]
@@ -15,111 +228,14 @@ export interface TransliterationResult {
   }
 }
 
-// Enhanced character mappings based on the Python implementation
-const URDU_TO_ROMAN_MAP: Record<string, string> = {
-  // Basic letters
-  ا: "a",
-  آ: "aa",
-  أ: "a",
-  إ: "i",
-  ب: "b",
-  پ: "p",
-  ت: "t",
-  ٹ: "T",
-  ث: "s",
-  ج: "j",
-  چ: "ch",
-  ح: "h",
-  خ: "kh",
-  د: "d",
-  ڈ: "D",
-  ذ: "z",
-  ر: "r",
-  ڑ: "R",
-  ز: "z",
-  ژ: "zh",
-  س: "s",
-  ش: "sh",
-  ص: "s",
-  ض: "z",
-  ط: "t",
-  ظ: "z",
-  ع: "",
-  غ: "gh",
-  ف: "f",
-  ق: "q",
-  ک: "k",
-  گ: "g",
-  ل: "l",
-  م: "m",
-  ن: "n",
-  ں: "n",
-  و: "w",
-  ہ: "h",
-  ھ: "h",
-  ی: "y",
-  ے: "e",
-  ء: "'",
-  // Punctuation
-  " ": " ",
-  "۔": ".",
-  "؟": "?",
-  "،": ",",
-  "؍": "/",
-  "٪": "%",
-}
+// The document-level figures of a result, without its text and tokens (see lib/transliteration-stream.ts)
+export type TransliterationSummary = Pick<TransliterationResult, "method" | "confidence" | "completeness">
 
-const ROMAN_TO_URDU_MAP: Record<string, string> = {
-  // Vowels
-  aa: "آ",
-  a: "ا",
-  e: "ے",
-  i: "ی",
-  o: "و",
-  u: "و",
-  // Consonants - prioritize longer sequences first
-  ch: "چ",
-  kh: "خ",
-  gh: "غ",
-  sh: "ش",
-  zh: "ژ",
-  th: "تھ",
-  ph: "پھ",
-  dh: "دھ",
-  rh: "ڑھ",
-  bh: "بھ",
-  jh: "جھ",
-  mh: "مھ",
-  nh: "نھ",
-  // Single consonants
-  b: "ب",
-  p: "پ",
-  t: "ت",
-  T: "ٹ",
-  j: "ج",
-  h: "ہ",
-  d: "د",
-  D: "ڈ",
-  r: "ر",
-  R: "ڑ",
-  z: "ز",
-  s: "س",
-  f: "ف",
-  q: "ق",
-  k: "ک",
-  g: "گ",
-  l: "ل",
-  m: "م",
-  n: "ن",
-  w: "و",
-  y: "ی",
-  // Punctuation
-  ".": "۔",
-  "?": "؟",
-  ",": "،",
-  "/": "؍",
-  "%": "٪",
-  " ": " ",
+// Short vowel mark + following letter that together spell a long vowel
+const LONG_VOWELS: Record<string, string> = {
+  aا: "aa",
+  iی: "ee",
+  uو: "oo",
 }
 
 // Character normalization
@@ -130,60 +246,264 @@ const NORMALIZE_MAP: Record<string, string> = {
   ك: "ک", // Arabic kaf to Urdu kaf
   ة: "ہ", // Teh marbuta to heh
   ۀ: "ہ", // Heh with yeh above
+  ۂ: "ہ", // Heh with hamza (izafat)
+  ۓ: "ے", // Yeh barree with hamza (izafat)
 }
 
-// Arabic digits normalization
-const ARABIC_DIGITS = "٠١٢٣٤٥٦٧٨٩"
-const ENGLISH_DIGITS = "0123456789"
+// Word-final zer, heh with hamza or yeh barree with hamza mark an izafat construction
+const IZAFAT_PATTERN = /[\u0650\u06C2\u06D3]$/
+
+// Used to detect source-script characters left behind by the rule-based pass
+const URDU_CHAR_PATTERN = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/
+const LATIN_CHAR_PATTERN = /[A-Za-z]/
 
 class TransliterationEngine {
-  private lexicon: Map<string, string> = new Map()
-  private reverseLexicon: Map<string, string> = new Map()
-  private isLoaded = false
+  // Enabled lexicon packs, highest priority first
+  private packIds: string[] = DEFAULT_LEXICON_PACKS
+  // Entries of the enabled packs as fetched, in priority order, for browsing and validation
+  private rawLexicon: PackLexiconEntry[] = []
+  // Pack entries after normalization, re-indexed whenever the user dictionary changes. `output` is the
+  // Urdu→Roman spelling, which keeps its case in packs that ask for it
+  private bundledEntries: { urdu: string; roman: string; output: string; weight: number; priority: number }[] = []
+  private userEntries: UserDictionaryEntry[] = []
+  // The user dictionary layered over the bundled lexicon
+  private lexicon: CandidateMap = new Map()
+  private reverseLexicon: CandidateMap = new Map()
+  // First word of each multi-word entry -> longest phrase length (in words) starting with it
+  private phraseLengths: Map<string, number> = new Map()
+  private reversePhraseLengths: Map<string, number> = new Map()
+  private vowelModel = new VowelModel()
+  private fuzzyIndex = new FuzzyIndex()
+  // Spelling plausibility of rule-based output in each target script
+  private romanSpelling = new CharacterModel((word) =>
+    word
+      .normalize("NFD")
+      .replace(/[\u0300-\u036F]/g, "")
+      .toLowerCase(),
+  )
+  private urduSpelling = new CharacterModel((word) => stripHarakat(word))
+  // English loanword -> its established Urdu spelling, and how English words are spelled, for telling
+  // English words in Roman Urdu apart
+  private englishLexicon: Map<string, string> = new Map()
+  private englishSpelling = new CharacterModel((word) => word.toLowerCase())
+  private spellingModel = new SpellingModel()
+  // Load of the current pack selection; cleared when it fails or the selection changes
+  private loading: Promise<void> | null = null
+  private loadStatus: LexiconLoadStatus = { state: "idle", attempts: 0 }
 
   async loadLexicon(): Promise<void> {
-    if (this.isLoaded) return
+    if (this.loading) return this.loading
+    if (this.loadStatus.state === "failed" && Date.now() < (this.loadStatus.retryAt ?? 0)) return
+
+    this.loadStatus = { ...this.loadStatus, state: "loading" }
+    this.loading = this.loadPacks(this.packIds)
+    return this.loading
+  }
+
+  getLexiconStatus(): LexiconLoadStatus {
+    return { ...this.loadStatus }
+  }
+
+  /**
+   * Loads the lexicon again now, without waiting for the retry delay of a failed load.
+   */
+  async retryLexicon(): Promise<void> {
+    if (this.loadStatus.state === "failed") this.loadStatus = { ...this.loadStatus, retryAt: undefined }
+    return this.loadLexicon()
+  }
+
+  /**
+   * Enables the given lexicon packs, highest priority first, and rebuilds the lexicon when the selection
+   * differs from the current one.
+   */
+  async setLexiconPacks(packIds: string[]): Promise<void> {
+    if (packIds.join("|") !== this.packIds.join("|")) {
+      this.packIds = [...packIds]
+      this.loading = null
+      this.loadStatus = { state: "idle", attempts: 0 }
+    }
+    return this.loadLexicon()
+  }
+
+  getLexiconPacks(): string[] {
+    return [...this.packIds]
+  }
 
+  private async loadPacks(packIds: string[]): Promise<void> {
     try {
-      const response = await fetch("/lexicon.json")
-      const data: LexiconEntry[] = await response.json()
+      const [manifest, loanwords] = await Promise.all([
+        loadLexiconManifest(),
+        // Without the loanword list English words are still found, just never given their Urdu spelling
+        loadEnglishLoanwords().catch((error) => {
+          console.warn("Failed to load English loanwords:", error)
+          return []
+        }),
+      ])
+      const packs = packIds.flatMap((id) => {
+        const pack = manifest.find((candidate) => candidate.id === id)
+        if (!pack) console.warn(`Unknown lexicon pack: ${id}`)
+        return pack ? [pack] : []
+      })
+      const contents = await Promise.all(packs.map((pack) => fetchLexiconPack(pack)))
+
+      // The selection changed while these packs were loading
+      if (packIds !== this.packIds) return
 
-      this.lexicon.clear()
-      this.reverseLexicon.clear()
+      this.rawLexicon = contents.flatMap((data, index) =>
+        data.map((entry) => ({ ...entry, priority: index + 1, preserveCase: packs[index].preserveCase })),
+      )
+      this.bundledEntries = []
+      this.vowelModel.clear()
+      this.spellingModel.clear()
+      this.fuzzyIndex.clear()
+      this.romanSpelling.clear()
+      this.urduSpelling.clear()
+      this.englishLexicon.clear()
+      this.englishSpelling.clear()
 
-      data.forEach((entry) => {
-        const urdu = this.normalizeUrdu(entry.urdu_script.trim())
-        const roman = entry.roman_urdu.trim().toLowerCase()
+      loanwords.forEach(({ english, urdu_script }) => {
+        const key = english.trim().toLowerCase()
+        if (key && urdu_script) this.englishLexicon.set(key, urdu_script.trim())
+      })
+      COMMON_ENGLISH_WORDS.forEach((word) => this.englishSpelling.train(word))
+      AMBIGUOUS_ENGLISH_WORDS.forEach((word) => this.englishSpelling.train(word))
+      this.englishLexicon.forEach((_, word) => this.englishSpelling.train(word))
 
-        if (urdu && roman) {
-          this.lexicon.set(urdu, roman)
-          this.reverseLexicon.set(roman, urdu)
+      contents.forEach((data, index) => {
+        const { preserveCase } = packs[index]
 
-          // Add word-level mappings
-          const urduWords = urdu.split(/\s+/)
-          const romanWords = roman.split(/\s+/)
+        data.forEach((entry) => {
+          const urdu = this.toLexiconKey(entry.urdu_script, "urdu")
+          const roman = this.toLexiconKey(entry.roman_urdu, "roman")
 
-          if (urduWords.length === 1 && romanWords.length === 1) {
-            this.lexicon.set(urduWords[0], romanWords[0])
-            this.reverseLexicon.set(romanWords[0], urduWords[0])
+          if (urdu && roman) {
+            const output = this.toLexiconOutput(entry.roman_urdu, preserveCase)
+            this.bundledEntries.push({ urdu, roman, output, weight: entry.weight ?? 1, priority: index + 1 })
+            this.vowelModel.train(urdu, roman)
+            this.spellingModel.train(urdu, roman)
+            this.fuzzyIndex.add(roman, urdu, entry.weight ?? 1)
+            urdu.split(" ").forEach((word) => this.urduSpelling.train(word))
+            roman.split(" ").forEach((word) => this.romanSpelling.train(word))
           }
-        }
+        })
       })
 
-      this.isLoaded = true
-      console.log(`Lexicon loaded: ${this.lexicon.size} Urdu→Roman mappings`)
+      this.indexLexicon()
+      this.loadStatus = { state: "ready", attempts: 0 }
+      console.log(
+        `Lexicon loaded from ${packs.map((pack) => pack.id).join(", ") || "no packs"}: ${this.lexicon.size} Urdu→Roman mappings, vowel and spelling models trained on ${this.vowelModel.size} words`,
+      )
     } catch (error) {
       console.error("Failed to load lexicon:", error)
-      this.isLoaded = false
+      if (packIds !== this.packIds) return
+
+      const attempts = this.loadStatus.attempts + 1
+      this.loading = null
+      this.loadStatus = {
+        state: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        attempts,
+        retryAt: Date.now() + Math.min(LEXICON_RETRY_BASE_MS * 2 ** (attempts - 1), LEXICON_RETRY_MAX_MS),
+      }
     }
   }
 
-  private normalizeUrdu(text: string): string {
-    // Convert Arabic digits to English
-    let normalized = text
-    for (let i = 0; i < ARABIC_DIGITS.length; i++) {
-      normalized = normalized.replace(new RegExp(ARABIC_DIGITS[i], "g"), ENGLISH_DIGITS[i])
-    }
+  /**
+   * Replaces the user dictionary. Its entries are consulted before the bundled lexicon in every mode.
+   */
+  setUserDictionary(entries: UserDictionaryEntry[]) {
+    this.userEntries = entries
+    this.indexLexicon()
+  }
+
+  /**
+   * Rebuilds the lookup maps from the user dictionary and the bundled lexicon.
+   */
+  private indexLexicon() {
+    this.lexicon.clear()
+    this.reverseLexicon.clear()
+    this.phraseLengths.clear()
+    this.reversePhraseLengths.clear()
+
+    this.userEntries.forEach((entry) => {
+      const urdu = this.toLexiconKey(entry.urdu, "urdu")
+      const roman = this.toLexiconKey(entry.roman, "roman")
+      if (!urdu || !roman) return
+
+      // Output keeps the spelling as the user wrote it
+      if (entry.urduToRoman) {
+        addLexiconCandidate(this.lexicon, urdu, entry.roman.trim(), 1, 0, true)
+        this.indexPhrase(this.phraseLengths, urdu.split(" "))
+      }
+      if (entry.romanToUrdu) {
+        addLexiconCandidate(this.reverseLexicon, roman, entry.urdu.trim(), 1, 0, true)
+        this.indexPhrase(this.reversePhraseLengths, roman.split(" "))
+      }
+    })
+
+    this.bundledEntries.forEach(({ urdu, roman, output, weight, priority }) => {
+      addLexiconCandidate(this.lexicon, urdu, output, weight, priority)
+      addLexiconCandidate(this.reverseLexicon, roman, urdu, weight, priority)
+      this.indexPhrase(this.phraseLengths, urdu.split(" "))
+      this.indexPhrase(this.reversePhraseLengths, roman.split(" "))
+    })
+
+    this.lexicon.forEach((candidates) => candidates.sort(compareLexiconCandidates))
+    this.reverseLexicon.forEach((candidates) => candidates.sort(compareLexiconCandidates))
+  }
+
+  /**
+   * Entries of the enabled lexicon packs exactly as loaded, in priority order and tagged with their pack,
+   * including entries the engine skips.
+   */
+  async getLexiconEntries(): Promise<PackLexiconEntry[]> {
+    await this.loadLexicon()
+    return this.rawLexicon
+  }
+
+  /**
+   * The key a lexicon or user dictionary spelling is stored under: normalized Urdu without harakat, or
+   * lowercase Roman, with runs of whitespace collapsed.
+   */
+  toLexiconKey(text: string, script: "urdu" | "roman"): string {
+    // lexicon.json is not validated, so a field may be missing or not a string
+    const trimmed = String(text ?? "").trim()
+    const key = script === "urdu" ? this.normalizeUrdu(trimmed) : trimmed.toLowerCase()
+    return key.replace(/\s+/g, " ")
+  }
+
+  /**
+   * The Roman spelling Urdu→Roman output gives a lexicon entry: its key, or the entry as written (whitespace
+   * collapsed) in packs that keep capitalization.
+   */
+  toLexiconOutput(roman: string, preserveCase?: boolean): string {
+    return preserveCase
+      ? String(roman ?? "")
+          .trim()
+          .replace(/\s+/g, " ")
+      : this.toLexiconKey(roman, "roman")
+  }
+
+  /**
+   * Ranked spellings stored for a lexicon key, best first.
+   */
+  getCandidates(key: string, direction: "urdu-to-roman" | "roman-to-urdu"): LexiconCandidate[] {
+    const map = direction === "urdu-to-roman" ? this.lexicon : this.reverseLexicon
+    return map.get(key) ?? []
+  }
+
+  private indexPhrase(index: Map<string, number>, words: string[]) {
+    if (words.length < 2) return
+    index.set(words[0], Math.max(index.get(words[0]) ?? 0, words.length))
+  }
+
+  private normalizeUrdu(
+    text: string,
+    diacritics: DiacriticsHandling = "remove",
+    digits: DigitConversion = "auto",
+  ): string {
+    // Convert Arabic-Indic and Urdu digits to English
+    let normalized = digits === "preserve" ? text : toAsciiDigits(text)
 
     // Remove tatweel (kashida)
     normalized = normalized.replace(/\u0640/g, "")
@@ -193,56 +513,196 @@ class TransliterationEngine {
       normalized = normalized.replace(new RegExp(arabic, "g"), urdu)
     })
 
-    // Remove diacritics
-    normalized = normalized.replace(/[\u064B-\u0652\u0670]/g, "")
+    // Remove diacritics, or keep them in a canonical order for the rule-based pass
+    if (diacritics === "remove") {
+      normalized = stripHarakat(normalized)
+    } else if (diacritics === "normalize") {
+      normalized = canonicalizeHarakat(normalized)
+    }
 
     return normalized
   }
 
-  private transliterateUrduWordRuleBased(word: string): string {
-    const chars = Array.from(word)
-    const result: string[] = []
-    let i = 0
+  private transliterateUrduWordRuleBased(word: string, strategy: TransliterationStrategy): string {
+    const { scheme } = strategy
+    const { letters, marks } = splitHarakat(word)
+    const units = toUrduUnits(letters.join(""))
+    let letterIndex = 0
+
+    // Vowel carriers and vowels stay in casual spelling, which the vowel model speaks, until the end
+    const result: { unit: string; core: string; vowel: string; marked: boolean }[] = []
 
-    while (i < chars.length) {
-      const currentChar = chars[i]
+    units.forEach((unit, i) => {
+      const unitLength = Array.from(unit).length
+      const harakat = readHarakat(marks.slice(letterIndex, letterIndex + unitLength).join(""))
+      letterIndex += unitLength
+
+      const mapped = this.mapUrduUnit(unit, isFlexibleUnit(unit) ? ROMANIZATION_SCHEMES.casual : scheme)
+      // Unmapped characters are copied through unchanged
+      if (mapped === null) {
+        result.push({ unit, core: unit, vowel: "", marked: false })
+        return
+      }
 
-      // Handle aspiration: consonant + do-chashmi heh (ھ)
-      if (i + 1 < chars.length && chars[i + 1] === "ھ") {
-        const baseRoman = URDU_TO_ROMAN_MAP[currentChar]
-        if (baseRoman) {
-          result.push(baseRoman + "h")
-          i += 2
-          continue
+      // Fill in the short vowels the script leaves unwritten; vowel carriers also take their learned value
+      const emission = this.vowelModel.predict(units, i)
+      let core = emission && isFlexibleUnit(unit) ? emission.core : mapped
+      let vowel = emission ? emission.vowel : ""
+      // Waw and yeh only start a word as consonants (yani, woh)
+      if (i === 0 && units.length > 1 && (unit === "و" || unit === "ی") && !core.startsWith(mapped)) core = mapped
+
+      // Written harakat take precedence over inferred vowels
+      const previous = result[result.length - 1]
+      if (harakat) {
+        if (harakat.vowel !== null) {
+          vowel = harakat.vowel
+          core = this.harakatCore(unit, mapped, harakat)
+          // A khari zabar on waw or yeh is the vowel of the letter before it, so that letter's guess goes
+          if (harakat.isKhariZabar && !core && previous && !previous.marked) previous.vowel = ""
+        } else if (harakat.geminate && (unit === "و" || unit === "ی")) {
+          // A doubled waw or yeh is a consonant with a vowel on either side, marked or not (quwwat, sayyid)
+          core = mapped
+          vowel = vowel || "a"
+          if (previous && !previous.vowel) previous.vowel = unit === "و" ? "u" : "a"
+        }
+        if (harakat.geminate && core) {
+          core = core[0] + core
         }
       }
 
-      // Direct character mapping
-      const mapped = URDU_TO_ROMAN_MAP[currentChar]
-      result.push(mapped || currentChar)
-      i++
+      // A long-vowel letter after its matching mark (zabar + alif, zer + yeh, pesh + waw) spells one long vowel
+      const longVowel = previous?.marked && !harakat ? LONG_VOWELS[previous.vowel + unit] : undefined
+      if (longVowel) {
+        previous.vowel = ""
+        core = longVowel
+      }
+
+      result.push({ unit, core, vowel, marked: harakat?.vowel != null })
+    })
+
+    // Other schemes spell a long vowel as one letter where casual spelling spreads it over the short vowel before
+    // the vowel letter and the letter itself (kitab, kiyaa, aur)
+    if (scheme.id !== "casual") {
+      result.forEach((emission, i) => {
+        const previous = result[i - 1]
+        if (!previous || emission.marked || !isFlexibleUnit(emission.unit)) return
+
+        // Waw and yeh read as consonants spell no vowel; read as a short vowel and the consonant before another
+        // vowel (hawa, jawab), they give the short vowel back to the letter before
+        const consonant = emission.unit === "و" ? "w" : emission.unit === "ی" ? "y" : undefined
+        if (consonant && emission.core === consonant) return
+        const next = result[i + 1]
+        const shortVowel = emission.core.slice(0, -1)
+        const beforeVowel = !!next && /^[aeiou]/.test(next.core)
+        if (
+          consonant &&
+          beforeVowel &&
+          !previous.vowel &&
+          /^[aeiou]$/.test(shortVowel) &&
+          emission.core.endsWith(consonant)
+        ) {
+          previous.vowel = shortVowel
+          emission.core = consonant
+          return
+        }
+
+        // A vowel carrier with no vowel of its own spells the short vowel in its core (ain as "a", yeh as "ya")
+        const inCore = !previous.vowel && isFlexibleUnit(previous.unit)
+        const before = inCore ? /[aeiou]*$/.exec(previous.core)![0] : previous.vowel
+        const joined = readLongVowel(emission.unit, before + emission.core)
+        const long = joined ?? readLongVowel(emission.unit, emission.core)
+        if (!long) return
+
+        if (joined && inCore) previous.core = previous.core.slice(0, previous.core.length - before.length)
+        else if (joined) previous.vowel = ""
+        emission.core = long
+      })
+    }
+
+    const roman = result
+      .map((emission) => {
+        const core = isFlexibleUnit(emission.unit)
+          ? spellFlexibleLetter(emission.unit, emission.core, scheme)
+          : emission.core
+        return core + spellVowel(emission.vowel, scheme)
+      })
+      .join("")
+    const cleaned = this.cleanUpRoman(applyPhoneticRules(roman, strategy.phoneticRules, "urdu-to-roman"))
+    // A capital starting a word only reads back as its letter (TooTa) when the word types another one
+    return scheme.caseSensitive || this.hasTypedCapital(cleaned, scheme)
+      ? cleaned
+      : cleaned.charAt(0).toLowerCase() + cleaned.slice(1)
+  }
+
+  private harakatCore(unit: string, mapped: string, harakat: HarakatReading): string {
+    // Alif and ain only carry the vowel
+    if (unit === "ا" || unit === "ع") return ""
+
+    if (unit === "و" || unit === "ی") {
+      // Jazm after a vowel makes a diphthong (aur, hai); khari zabar reads as a long a (Musa, aala)
+      if (harakat.isJazm) return unit === "و" ? "u" : "i"
+      if (harakat.isKhariZabar) return ""
+    }
+
+    return mapped
+  }
+
+  private mapUrduUnit(unit: string, scheme: RomanizationScheme): string | null {
+    // Handle aspiration: consonant + do-chashmi heh (ھ)
+    if (unit.length === 2 && unit[1] === "ھ") {
+      const baseRoman = scheme.letters[unit[0]]
+      return baseRoman ? baseRoman + scheme.aspiration : null
     }
 
-    return this.applyPhoneticRules(result.join(""))
+    return unit in scheme.letters ? scheme.letters[unit] : null
   }
 
-  private transliterateRomanWordRuleBased(word: string): string {
-    const cleanWord = word.replace(/[.,!?;:]+$/, "")
-    const punctuation = word.slice(cleanWord.length)
+  private transliterateRomanWordRuleBased(word: string, strategy: TransliterationStrategy): string {
+    const { scheme } = strategy
+    // Scholarly input may arrive with decomposed diacritics (a + combining macron)
+    const normalizedWord = word.normalize("NFC")
+    const wordLower = scheme.caseSensitive ? normalizedWord : normalizedWord.toLowerCase()
+
+    // A capital that spells a letter of its own (casual T for ٹ) counts as typed; at the start of a word it is
+    // only capitalization, unless the word types another one (TooTa)
+    const hasTypedCapital = this.hasTypedCapital(normalizedWord, scheme)
+    const matchesAt = (key: string, at: number) =>
+      scheme.caseSensitive || key === key.toLowerCase()
+        ? wordLower.startsWith(key, at)
+        : hasTypedCapital && normalizedWord.startsWith(key, at)
+
+    // Casual Roman Urdu is spelled like the lexicon, so the learned model decides which letters to write, keeping
+    // the ones typed as capitals; other schemes and words with pieces it never saw go through the letter table
+    const typed = new Map<number, string>()
+    if (hasTypedCapital) {
+      Array.from(normalizedWord).forEach((char, at) => {
+        if (char !== char.toLowerCase() && scheme.toUrdu[char]) typed.set(at, scheme.toUrdu[char])
+      })
+    }
+    const spelled = scheme.usesLexicon ? this.spellingModel.decode(wordLower, typed) : null
+    if (spelled) {
+      const urdu = spelled
+        .map((spelledUnit, index) =>
+          strategy.handleDiacritics === "preserve" ? this.spellWithHarakat(spelledUnit, index === 0) : spelledUnit.unit,
+        )
+        .join("")
+      return applyPhoneticRules(urdu, strategy.phoneticRules, "roman-to-urdu")
+    }
 
-    const wordLower = cleanWord.toLowerCase()
-    let result = ""
+    const segments: { key: string; urdu: string }[] = []
     let i = 0
 
-    // Sort keys by length (longest first)
-    const sortedKeys = Object.keys(ROMAN_TO_URDU_MAP).sort((a, b) => b.length - a.length)
+    // Sort keys by length (longest first), typed capitals before their lowercase reading
+    const sortedKeys = Object.keys(scheme.toUrdu).sort(
+      (a, b) => b.length - a.length || Number(a === a.toLowerCase()) - Number(b === b.toLowerCase()),
+    )
 
     while (i < wordLower.length) {
       let matched = false
 
       for (const key of sortedKeys) {
-        if (key !== " " && wordLower.substring(i).startsWith(key)) {
-          result += ROMAN_TO_URDU_MAP[key]
+        if (matchesAt(key, i)) {
+          segments.push({ key, urdu: scheme.toUrdu[key] })
           i += key.length
           matched = true
           break
@@ -252,34 +712,70 @@ class TransliterationEngine {
       if (!matched) {
         const char = wordLower[i]
         // Handle unmapped characters
-        if (char === "a") result += "ا"
-        else if (char === "i") result += "ی"
-        else if (char === "u" || char === "o") result += "و"
-        else if (char === "e") result += "ے"
-        else result += char
+        if (char === "a") segments.push({ key: char, urdu: "ا" })
+        else if (char === "i") segments.push({ key: char, urdu: "ی" })
+        else if (char === "u" || char === "o") segments.push({ key: char, urdu: "و" })
+        else if (char === "e") segments.push({ key: char, urdu: "ے" })
+        else if (/[0-9]/.test(char) && strategy.digitConversion === "auto")
+          segments.push({ key: char, urdu: toUrduDigits(char) })
+        else segments.push({ key: char, urdu: char })
         i++
       }
     }
 
-    // Add back punctuation in Urdu
-    const urduPunctuation = punctuation.replace(/\./g, "۔").replace(/\?/g, "؟").replace(/,/g, "،")
+    const urdu =
+      strategy.handleDiacritics === "preserve"
+        ? this.writeWithHarakat(segments, scheme)
+        : segments
+            // Short vowels spelled only by a mark still need an alif to start a word
+            .map((segment, index) => segment.urdu || (index === 0 && VOWEL_MARKS[segment.key] ? "ا" : ""))
+            .join("")
+    return applyPhoneticRules(urdu, strategy.phoneticRules, "roman-to-urdu")
+  }
 
-    return result + urduPunctuation
+  /**
+   * Whether a word types a capital that spells a letter of its own (casual T for ٹ) after its first letter.
+   * An all-caps word is only capitalization.
+   */
+  private hasTypedCapital(word: string, scheme: RomanizationScheme): boolean {
+    if (scheme.caseSensitive || word === word.toUpperCase()) return false
+    return Object.keys(scheme.toUrdu).some((key) => key !== key.toLowerCase() && word.indexOf(key, 1) > 0)
   }
 
-  private applyPhoneticRules(text: string): string {
-    // Convert 'w' between consonants to 'o' for vowel sound
-    text = text.replace(
-      /(?<=[bcdfghjklmnpqrstvwxyzBCDFGHJKLMNPQRSTVWXYZ])w(?=[bcdfghjklmnpqrstvwxyzBCDFGHJKLMNPQRSTVWXYZ])/g,
-      "o",
-    )
+  /**
+   * Writes a decoded unit with the harakat its Roman reading implies: shadda for a doubled consonant, and
+   * zabar/zer/pesh for the short vowel after it (or the one an initial alif or ain carries).
+   */
+  private spellWithHarakat({ unit, piece, vowel }: SpelledUnit, isInitial: boolean): string {
+    const geminate = !isFlexibleUnit(unit) && piece.length === 2 && piece[0] === piece[1] ? SHADDA : ""
+    const carried = isInitial && (unit === "ا" || unit === "ع") ? VOWEL_MARKS[piece] : undefined
+    return unit + geminate + (VOWEL_MARKS[vowel] ?? carried ?? "")
+  }
 
-    // Convert 'y' between consonants to 'i' for vowel sound
-    text = text.replace(
-      /(?<=[bcdfghjklmnpqrstvwxyzBCDFGHJKLMNPQRSTVWXYZ])y(?=[bcdfghjklmnpqrstvwxyzBCDFGHJKLMNPQRSTVWXYZ])/g,
-      "i",
-    )
+  /**
+   * Writes short a/i/u as zabar/zer/pesh instead of letters and doubled consonants as shadda.
+   */
+  private writeWithHarakat(segments: { key: string; urdu: string }[], scheme: RomanizationScheme): string {
+    const isConsonant = (segment?: { key: string }) =>
+      !!segment && segment.key in scheme.toUrdu && !(segment.key in scheme.romanVowels)
 
+    return segments
+      .map((segment, i) => {
+        const previous = segments[i - 1]
+        const mark = VOWEL_MARKS[segment.key]
+
+        // Initial short vowels sit on an alif carrier
+        if (mark && i === 0) return "ا" + mark
+        // Medial short vowels become marks on the preceding consonant; final ones stay letters
+        if (mark && isConsonant(previous) && i < segments.length - 1) return mark
+        if (isConsonant(segment) && previous?.key === segment.key) return SHADDA
+
+        return segment.urdu
+      })
+      .join("")
+  }
+
+  private cleanUpRoman(text: string): string {
     // Clean up multiple spaces
     text = text.replace(/\s+/g, " ")
 
@@ -287,11 +783,162 @@ class TransliterationEngine {
     return text.trim().replace(/^['"\s]+|['"\s]+$/g, "")
   }
 
+  private usesLexicon(strategy: TransliterationStrategy): boolean {
+    return strategy.scheme.usesLexicon && strategy.preferredMethod !== "rule-based-only"
+  }
+
+  /**
+   * Splits a word after each izafat that joins it to the next (kitab-e-zindagi: kitab-e, zindagi).
+   */
+  private splitIzafat(word: SourceWord, scheme: RomanizationScheme): SourceWord[] {
+    if (!scheme.izafat) return [word]
+
+    const joiner = scheme.izafat + "-"
+    const lower = word.text.toLowerCase()
+    const pieces: SourceWord[] = []
+    let start = 0
+
+    for (let at = lower.indexOf(joiner, 1); at > 0; at = lower.indexOf(joiner, start + 1)) {
+      const end = at + scheme.izafat.length
+      // Nothing after the joiner to read as the next word
+      if (end + 1 >= lower.length) break
+      pieces.push({ text: word.text.slice(start, end), start: word.start + start, end: word.start + end })
+      start = end + 1
+    }
+
+    pieces.push({ text: word.text.slice(start), start: word.start + start, end: word.end })
+    return pieces
+  }
+
+  private splitWords(text: string): SourceWord[] {
+    return Array.from(text.matchAll(/\S+/g), (match) => ({
+      text: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length,
+    }))
+  }
+
+  private resolveWord(
+    word: string,
+    lexicon: CandidateMap,
+    ruleBased: (word: string) => string,
+    hasUnmapped: (text: string) => boolean,
+    strategy: TransliterationStrategy,
+    fuzzy?: (word: string) => FuzzyMatch | null,
+  ): { text: string; method: WordMethod; alternatives: string[]; fuzzyMatch?: FuzzyMatch } {
+    // User dictionary entries apply in every mode and scheme
+    if (lexicon.get(word)?.[0]?.user) {
+      const alternatives = this.lexiconCandidates(lexicon, word, this.usesLexicon(strategy)).map(
+        (candidate) => candidate.text,
+      )
+      return { text: alternatives[0], method: "user-dictionary", alternatives }
+    }
+
+    let ruleBasedText: string | undefined
+    const transliterate = () => {
+      if (ruleBasedText === undefined) ruleBasedText = ruleBased(word)
+      return ruleBasedText
+    }
+
+    // A spelling variant stands in for the word when the lexicon has no exact entry. "auto" only takes it when
+    // the rules do not already give a spelling that scores as well; variants are Roman words, so the rules write Urdu.
+    const variant = !lexicon.has(word) && this.usesLexicon(strategy) ? fuzzy?.(word) : null
+    const fuzzyMatch =
+      variant &&
+      (strategy.preferredMethod !== "auto" ||
+        variant.confidence > ruleBasedConfidence(transliterate(), this.urduSpelling))
+        ? variant
+        : undefined
+    const alternatives = (lexicon.get(fuzzyMatch?.key ?? word) ?? []).map((candidate) => candidate.text)
+    const fromLexicon = fuzzyMatch
+      ? { text: alternatives[0], method: "fuzzy-lexicon" as const, alternatives, fuzzyMatch }
+      : { text: alternatives[0], method: "lexicon" as const, alternatives }
+
+    // Lexicon spellings only fit the scheme they were written in
+    switch (strategy.scheme.usesLexicon ? strategy.preferredMethod : "rule-based-only") {
+      case "lexicon-only":
+        return alternatives.length > 0 ? fromLexicon : { text: word, method: "untransliterated", alternatives }
+      case "rule-based-only":
+        return { text: transliterate(), method: "rule-based", alternatives: [] }
+      case "rule-based-first": {
+        const transliterated = transliterate()
+        if (hasUnmapped(transliterated) && alternatives.length > 0) {
+          return fromLexicon
+        }
+        return { text: transliterated, method: "rule-based", alternatives }
+      }
+      default:
+        return alternatives.length > 0 ? fromLexicon : { text: transliterate(), method: "rule-based", alternatives }
+    }
+  }
+
+  /**
+   * Spellings stored for a key, best first: user dictionary entries always, bundled ones only when `bundled` is set.
+   */
+  private lexiconCandidates(lexicon: CandidateMap, key: string, bundled: boolean): LexiconCandidate[] {
+    const candidates = lexicon.get(key) ?? []
+    return bundled ? candidates : candidates.filter((candidate) => candidate.user)
+  }
+
+  /**
+   * Greedy longest match of a multi-word lexicon entry starting at `start`.
+   * Only the first word of a phrase may open with punctuation and only the last may close with it.
+   * Returns the number of words matched, or 0 when no phrase of two or more words applies.
+   */
+  private matchPhrase(
+    words: { key: string; leading: string; trailing: string }[],
+    start: number,
+    lexicon: CandidateMap,
+    phraseLengths: Map<string, number>,
+    strategy: TransliterationStrategy,
+  ): number {
+    const maxLength = Math.min(phraseLengths.get(words[start].key) ?? 0, words.length - start)
+
+    for (let length = maxLength; length >= 2; length--) {
+      const slice = words.slice(start, start + length)
+      if (slice.some((word, index) => (index > 0 && word.leading) || (index < length - 1 && word.trailing))) continue
+      const phrase = slice.map((word) => word.key).join(" ")
+      if (this.lexiconCandidates(lexicon, phrase, this.usesPhrases(strategy)).length > 0) return length
+    }
+
+    return 0
+  }
+
+  private usesPhrases(strategy: TransliterationStrategy): boolean {
+    return this.usesLexicon(strategy) && strategy.preferredMethod !== "rule-based-first"
+  }
+
+  private toTokenSource(method: WordMethod): TokenSource {
+    return method === "lexicon" ? "word-lexicon" : method
+  }
+
+  private summarizeMethods(
+    tokens: TransliterationToken[],
+    strategy: TransliterationStrategy,
+  ): TransliterationResult["method"] {
+    const usedLexicon = tokens.some(
+      (token) =>
+        token.method === "user-dictionary" ||
+        token.method === "phrase-lexicon" ||
+        token.method === "word-lexicon" ||
+        token.method === "fuzzy-lexicon" ||
+        token.method === "loanword-lexicon",
+    )
+    const usedRules = tokens.some((token) => token.method === "rule-based")
+
+    if (usedLexicon && usedRules) return "hybrid"
+    if (usedLexicon) return "lexicon"
+    if (usedRules) return "rule-based"
+    return strategy.preferredMethod === "lexicon-only" ? "lexicon" : "rule-based"
+  }
+
   private checkCompleteness(originalText: string, transliteratedText: string, direction: "ur-to-en" | "en-to-ur") {
     if (direction === "ur-to-en") {
-      // Check if any Urdu characters remain
+      // Check if any Urdu characters remain (preserved Eastern digits and punctuation are not letters)
       const urduPattern = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]+/g
-      const untransliterated = transliteratedText.match(urduPattern) || []
+      const untransliterated =
+        transliteratedText.replace(EASTERN_NUMBER_CHARS, "").replace(URDU_PUNCTUATION_CHARS, "").match(urduPattern) ||
+        []
 
       return {
         isComplete: untransliterated.length === 0,
@@ -313,118 +960,637 @@ class TransliterationEngine {
     }
   }
 
-  async transliterateUrduToRoman(text: string): Promise<TransliterationResult> {
+  /**
+   * One token per word for reversible schemes, which convert each character on its own. Words are split on
+   * ASCII whitespace only, which is copied between tokens; other spaces are encoded with the word.
+   */
+  private encodeWords(text: string, convert: (word: string) => string): DraftToken[] {
+    return Array.from(text.matchAll(/[^ \t\n\r]+/g), (match) => ({
+      source: { start: match.index!, end: match.index! + match[0].length },
+      sourceText: match[0],
+      outputText: convert(match[0]),
+      method: "rule-based",
+      normalized: match[0],
+      alternatives: [],
+    }))
+  }
+
+  private buildResult(
+    text: string,
+    tokens: DraftToken[],
+    direction: "ur-to-en" | "en-to-ur",
+    strategy: TransliterationStrategy,
+  ): TransliterationResult {
+    // Reversible output is exact by construction
+    const target = direction === "ur-to-en" ? this.romanSpelling : this.urduSpelling
+    const scored = tokens.map((token) => ({
+      ...token,
+      confidence: strategy.scheme.reversible ? 1 : tokenConfidence(token, target),
+    }))
+    const result = joinTokens(scored, text)
+    // English words kept in Latin script were left that way on purpose
+    const checked = result.tokens.some((token) => token.method === "english")
+      ? result.tokens
+          .filter((token) => token.method !== "english")
+          .map((token) => token.outputText)
+          .join(" ")
+      : result.text
+
+    return {
+      originalText: text,
+      transliteratedText: result.text,
+      method: this.summarizeMethods(result.tokens, strategy),
+      tokens: result.tokens,
+      confidence: documentConfidence(result.tokens),
+      completeness: this.checkCompleteness(text, checked, direction),
+    }
+  }
+
+  async transliterateUrduToRoman(
+    text: string,
+    strategy: TransliterationStrategy = DEFAULT_STRATEGY,
+  ): Promise<TransliterationResult> {
+    // Loaded even for rule-based-only: the vowel model is trained from the lexicon
     await this.loadLexicon()
 
-    const normalizedText = this.normalizeUrdu(text)
+    if (strategy.scheme.reversible) {
+      return this.buildResult(
+        text,
+        this.encodeWords(text, (word) => encodeReversible(word, strategy.scheme)),
+        "ur-to-en",
+        strategy,
+      )
+    }
+
+    const words = this.splitWords(text)
+    const normalizedText = this.normalizeUrdu(text.trim()).replace(/\s+/g, " ")
 
     // Try exact phrase match first
-    if (this.lexicon.has(normalizedText)) {
-      const result = this.lexicon.get(normalizedText)!
-      return {
-        originalText: text,
-        transliteratedText: result,
-        method: "lexicon",
-        completeness: this.checkCompleteness(text, result, "ur-to-en"),
-      }
+    const wholeText = this.lexiconCandidates(this.lexicon, normalizedText, this.usesPhrases(strategy))
+    if (words.length > 0 && wholeText.length > 0) {
+      const start = words[0].start
+      const end = words[words.length - 1].end
+      return this.buildResult(
+        text,
+        [
+          {
+            source: { start, end },
+            sourceText: text.slice(start, end),
+            outputText: wholeText[0].text,
+            method: wholeText[0].user ? "user-dictionary" : "phrase-lexicon",
+            normalized: normalizedText,
+            alternatives: wholeText.map((candidate) => candidate.text),
+          },
+        ],
+        "ur-to-en",
+        strategy,
+      )
     }
 
-    // Word-by-word processing
-    const words = normalizedText.split(/\s+/)
-    const resultWords: string[] = []
-    const methodsUsed: string[] = []
+    // Word-by-word processing, preferring the longest multi-word lexicon entry at each position
+    const keyed = words.map((word) => {
+      const { leading, core, trailing } = splitPunctuation(word.text)
+      const key = this.normalizeUrdu(core)
+      const izafat = strategy.scheme.izafat && IZAFAT_PATTERN.test(core) ? strategy.scheme.izafat : ""
+
+      // The lexicon is keyed without harakat; the rule-based pass may read them, and with diacritics removed
+      // still reads the marks that stand for letters
+      let vocalized =
+        strategy.handleDiacritics === "remove"
+          ? stripShortVowels(this.normalizeUrdu(core, "normalize", strategy.digitConversion))
+          : this.normalizeUrdu(core, strategy.handleDiacritics, strategy.digitConversion)
+      if (izafat && vocalized.endsWith(ZER)) vocalized = vocalized.slice(0, -1)
+
+      return { ...word, key, core, vocalized, izafat, number: readDecimalPoints(core), leading, trailing }
+    })
+    const tokens: DraftToken[] = []
 
-    for (const word of words) {
-      const cleanWord = word.replace(/[۔؟،؍٪]+$/, "")
-      const punctuation = word.slice(cleanWord.length)
+    for (let i = 0; i < keyed.length;) {
+      const phraseLength = this.matchPhrase(keyed, i, this.lexicon, this.phraseLengths, strategy)
+      const span = keyed.slice(i, i + Math.max(phraseLength, 1))
+      const first = span[0]
+      const last = span[span.length - 1]
+      const romanLeading = convertPunctuation(first.leading, "roman", strategy.punctuation, "leading")
+      const romanPunct = last.izafat + convertPunctuation(last.trailing, "roman", strategy.punctuation, "trailing")
 
-      if (this.lexicon.has(cleanWord)) {
-        const romanPunct = punctuation.replace(/۔/g, ".").replace(/؟/g, "?").replace(/،/g, ",")
-        resultWords.push(this.lexicon.get(cleanWord)! + romanPunct)
-        methodsUsed.push("lexicon")
+      if (phraseLength > 0) {
+        const phrase = span.map((word) => word.key).join(" ")
+        const candidates = this.lexiconCandidates(this.lexicon, phrase, this.usesPhrases(strategy))
+        const alternatives = candidates.map((candidate) => romanLeading + candidate.text + romanPunct)
+        tokens.push({
+          source: { start: first.start, end: last.end },
+          sourceText: text.slice(first.start, last.end),
+          outputText: alternatives[0],
+          method: candidates[0].user ? "user-dictionary" : "phrase-lexicon",
+          normalized: phrase,
+          alternatives,
+        })
+      } else if (!first.key) {
+        // Removed punctuation leaves nothing to join
+        if (romanLeading || romanPunct) {
+          tokens.push({
+            source: { start: first.start, end: first.end },
+            sourceText: first.text,
+            outputText: romanLeading + romanPunct,
+            method: "punctuation",
+            normalized: first.text,
+            alternatives: [],
+          })
+        }
+      } else if (isNumber(first.number)) {
+        const number = strategy.digitConversion === "preserve" ? first.number : formatNumberAscii(first.number)
+        tokens.push({
+          source: { start: first.start, end: first.end },
+          sourceText: first.text,
+          outputText: romanLeading + number + romanPunct,
+          method: "number",
+          normalized: formatNumberAscii(first.number),
+          alternatives: [],
+        })
       } else {
-        const transliterated = this.transliterateUrduWordRuleBased(cleanWord)
-        const romanPunct = punctuation.replace(/۔/g, ".").replace(/؟/g, "?").replace(/،/g, ",")
-        resultWords.push(transliterated + romanPunct)
-        methodsUsed.push("rule-based")
+        const resolved = this.resolveWord(
+          first.key,
+          this.lexicon,
+          () =>
+            convertPunctuation(
+              this.transliterateUrduWordRuleBased(first.vocalized, strategy),
+              "roman",
+              strategy.punctuation,
+            ),
+          (t) => URDU_CHAR_PATTERN.test(t),
+          strategy,
+        )
+        tokens.push({
+          source: { start: first.start, end: first.end },
+          sourceText: first.text,
+          outputText: romanLeading + (resolved.method === "untransliterated" ? first.core : resolved.text) + romanPunct,
+          method: this.toTokenSource(resolved.method),
+          normalized: first.key,
+          alternatives: resolved.alternatives.map((alternative) => romanLeading + alternative + romanPunct),
+        })
       }
-    }
-
-    const result = resultWords.join(" ")
-    const method =
-      methodsUsed.includes("lexicon") && methodsUsed.includes("rule-based")
-        ? "hybrid"
-        : methodsUsed.includes("lexicon")
-          ? "lexicon"
-          : "rule-based"
 
-    return {
-      originalText: text,
-      transliteratedText: result,
-      method: method as "lexicon" | "rule-based" | "hybrid",
-      completeness: this.checkCompleteness(text, result, "ur-to-en"),
+      i += span.length
     }
+
+    return this.buildResult(text, tokens, "ur-to-en", strategy)
   }
 
-  async transliterateRomanToUrdu(text: string): Promise<TransliterationResult> {
+  async transliterateRomanToUrdu(
+    text: string,
+    strategy: TransliterationStrategy = DEFAULT_STRATEGY,
+  ): Promise<TransliterationResult> {
     await this.loadLexicon()
 
-    const trimmedText = text.trim()
-    if (!trimmedText) {
-      return {
-        originalText: text,
-        transliteratedText: "",
-        method: "rule-based",
-        completeness: { isComplete: true, untransliteratedParts: [], totalWords: 0, untransliteratedCount: 0 },
-      }
+    if (strategy.scheme.reversible) {
+      return this.buildResult(
+        text,
+        this.encodeWords(text, (word) => decodeReversible(word, strategy.scheme)),
+        "en-to-ur",
+        strategy,
+      )
     }
 
+    const trimmedText = text.trim()
+    if (!trimmedText) return this.emptyResult(text)
+
+    // An izafat written as one word (kitab-e-zindagi) is read as two, unless the lexicon has the compound
+    const words = this.splitWords(text).flatMap((word) =>
+      this.reverseLexicon.has(splitPunctuation(word.text).core.toLowerCase())
+        ? [word]
+        : this.splitIzafat(word, strategy.scheme),
+    )
+
     // Try exact phrase match first
-    const lowerText = trimmedText.toLowerCase()
-    if (this.reverseLexicon.has(lowerText)) {
-      const result = this.reverseLexicon.get(lowerText)!
-      return {
-        originalText: text,
-        transliteratedText: result,
-        method: "lexicon",
-        completeness: this.checkCompleteness(text, result, "en-to-ur"),
-      }
+    const lowerText = trimmedText.toLowerCase().replace(/\s+/g, " ")
+    const wholeText = this.lexiconCandidates(this.reverseLexicon, lowerText, this.usesPhrases(strategy))
+    if (wholeText.length > 0) {
+      const start = words[0].start
+      const end = words[words.length - 1].end
+      return this.buildResult(
+        text,
+        [
+          {
+            source: { start, end },
+            sourceText: trimmedText,
+            outputText: wholeText[0].text,
+            method: wholeText[0].user ? "user-dictionary" : "phrase-lexicon",
+            normalized: lowerText,
+            alternatives: wholeText.map((candidate) => candidate.text),
+          },
+        ],
+        "en-to-ur",
+        strategy,
+      )
     }
 
-    // Word-by-word processing
-    const words = trimmedText.split(/\s+/)
-    const resultWords: string[] = []
-    const methodsUsed: string[] = []
+    // Word-by-word processing, preferring the longest multi-word lexicon entry at each position
+    const { izafat } = strategy.scheme
+    const keyed = words.map((word) => {
+      const { leading, core, trailing } = splitPunctuation(word.text)
+      const key = core.toLowerCase()
+      // An izafat suffix (kitab-e) is written as a zer on the head word, if at all
+      const hasIzafat = !!izafat && key.length > izafat.length && key.endsWith(izafat) && !this.reverseLexicon.has(key)
+      const head = hasIzafat ? core.slice(0, -izafat.length) : core
+      const zer = hasIzafat && strategy.handleDiacritics === "preserve" ? ZER : ""
+      return { ...word, core: head, key: head.toLowerCase(), zer, leading, trailing }
+    })
+    const tokens: DraftToken[] = []
+
+    // Both language identification and word resolution may look for a spelling variant of the same word
+    const fuzzyMatches = new Map<string, FuzzyMatch | null>()
+    const fuzzy = (word: string) => {
+      if (!fuzzyMatches.has(word)) fuzzyMatches.set(word, this.fuzzyIndex.match(word))
+      return fuzzyMatches.get(word) ?? null
+    }
+    const languages = this.identifyLanguages(
+      keyed.map((word) => word.key),
+      strategy.fuzzyMatching && this.usesLexicon(strategy) ? fuzzy : undefined,
+    )
 
-    for (const word of words) {
-      const lowerWord = word.toLowerCase()
+    for (let i = 0; i < keyed.length;) {
+      const phraseLength = this.matchPhrase(keyed, i, this.reverseLexicon, this.reversePhraseLengths, strategy)
+      const span = keyed.slice(i, i + Math.max(phraseLength, 1))
+      const first = span[0]
+      const last = span[span.length - 1]
+      const urduLeading = convertPunctuation(first.leading, "urdu", strategy.punctuation, "leading")
+      const urduPunct = last.zer + convertPunctuation(last.trailing, "urdu", strategy.punctuation, "trailing")
 
-      if (this.reverseLexicon.has(lowerWord)) {
-        resultWords.push(this.reverseLexicon.get(lowerWord)!)
-        methodsUsed.push("lexicon")
+      if (phraseLength > 0) {
+        const phrase = span.map((word) => word.key).join(" ")
+        const candidates = this.lexiconCandidates(this.reverseLexicon, phrase, this.usesPhrases(strategy))
+        const alternatives = candidates.map((candidate) => urduLeading + candidate.text + urduPunct)
+        tokens.push({
+          source: { start: first.start, end: last.end },
+          sourceText: text.slice(first.start, last.end),
+          outputText: alternatives[0],
+          method: candidates[0].user ? "user-dictionary" : "phrase-lexicon",
+          normalized: phrase,
+          alternatives,
+        })
+      } else if (!first.key) {
+        // Removed punctuation leaves nothing to join
+        if (urduLeading || urduPunct) {
+          tokens.push({
+            source: { start: first.start, end: first.end },
+            sourceText: first.text,
+            outputText: urduLeading + urduPunct,
+            method: "punctuation",
+            normalized: first.text,
+            alternatives: [],
+          })
+        }
+      } else if (isNumber(first.key)) {
+        const number = strategy.digitConversion === "auto" ? formatNumberUrdu(first.key) : first.key
+        tokens.push({
+          source: { start: first.start, end: first.end },
+          sourceText: first.text,
+          outputText: urduLeading + number + urduPunct,
+          method: "number",
+          normalized: formatNumberAscii(first.key),
+          alternatives: [],
+        })
+      } else if (this.appliesEnglishPolicy(first.key, languages[i], strategy)) {
+        tokens.push(this.englishToken(first, languages[i]!, urduLeading, urduPunct, strategy))
       } else {
-        const transliterated = this.transliterateRomanWordRuleBased(word)
-        resultWords.push(transliterated)
-        methodsUsed.push("rule-based")
+        // The lexicon is keyed by lowercase words; rule-based output keeps the original casing, so a word with a
+        // typed capital (toTa) skips the bundled spellings
+        const wordStrategy = this.hasTypedCapital(first.core, strategy.scheme)
+          ? { ...strategy, preferredMethod: "rule-based-only" as const }
+          : strategy
+        const resolved = this.resolveWord(
+          first.key,
+          this.reverseLexicon,
+          () =>
+            convertPunctuation(
+              this.transliterateRomanWordRuleBased(first.core, strategy),
+              "urdu",
+              strategy.punctuation,
+            ),
+          (t) => LATIN_CHAR_PATTERN.test(t),
+          wordStrategy,
+          strategy.fuzzyMatching ? fuzzy : undefined,
+        )
+        tokens.push({
+          source: { start: first.start, end: first.end },
+          sourceText: first.text,
+          outputText: urduLeading + (resolved.method === "untransliterated" ? first.core : resolved.text) + urduPunct,
+          method: this.toTokenSource(resolved.method),
+          normalized: resolved.fuzzyMatch?.key ?? first.key,
+          alternatives: resolved.alternatives.map((alternative) => urduLeading + alternative + urduPunct),
+          ...(resolved.fuzzyMatch && { fuzzyMatch: resolved.fuzzyMatch }),
+          ...(languages[i] && { language: { ...languages[i]!, action: "transliterated" as const } }),
+        })
+      }
+
+      i += span.length
+    }
+
+    return this.buildResult(text, tokens, "en-to-ur", strategy)
+  }
+
+  /**
+   * Writes English in Urdu script: loanwords with the spelling Urdu has settled on, other words from their
+   * English spelling (see lib/english-g2p.ts). User dictionary entries apply as they do to Roman Urdu.
+   */
+  async transliterateEnglishToUrdu(
+    text: string,
+    strategy: TransliterationStrategy = DEFAULT_STRATEGY,
+  ): Promise<TransliterationResult> {
+    await this.loadLexicon()
+
+    if (!text.trim()) return this.emptyResult(text)
+
+    const tokens = this.splitWords(text).flatMap((word): DraftToken[] => {
+      const { leading, core, trailing } = splitPunctuation(word.text)
+      const key = core.toLowerCase()
+      const urduLeading = convertPunctuation(leading, "urdu", strategy.punctuation, "leading")
+      const urduPunct = convertPunctuation(trailing, "urdu", strategy.punctuation, "trailing")
+      const source = { start: word.start, end: word.end }
+
+      if (!key) {
+        if (!urduLeading && !urduPunct) return []
+        const outputText = urduLeading + urduPunct
+        return [
+          { source, sourceText: word.text, outputText, method: "punctuation", normalized: word.text, alternatives: [] },
+        ]
       }
+      if (isNumber(key)) {
+        const number = strategy.digitConversion === "auto" ? formatNumberUrdu(key) : key
+        return [
+          {
+            source,
+            sourceText: word.text,
+            outputText: urduLeading + number + urduPunct,
+            method: "number",
+            normalized: formatNumberAscii(key),
+            alternatives: [],
+          },
+        ]
+      }
+
+      const resolved = this.resolveEnglishWord(core, key, strategy)
+      return [
+        {
+          source,
+          sourceText: word.text,
+          outputText: urduLeading + resolved.text + urduPunct,
+          method: resolved.method,
+          normalized: key,
+          alternatives: resolved.alternatives.map((alternative) => urduLeading + alternative + urduPunct),
+        },
+      ]
+    })
+
+    // Romanization schemes say how Roman Urdu is spelled, which has no bearing on English input
+    return this.buildResult(text, tokens, "en-to-ur", { ...strategy, scheme: DEFAULT_SCHEME })
+  }
+
+  private resolveEnglishWord(
+    core: string,
+    key: string,
+    strategy: TransliterationStrategy,
+  ): { text: string; method: TokenSource; alternatives: string[] } {
+    const userEntries = this.lexiconCandidates(this.reverseLexicon, key, false)
+    if (userEntries.length > 0) {
+      const alternatives = userEntries.map((candidate) => candidate.text)
+      return { text: alternatives[0], method: "user-dictionary", alternatives }
     }
 
-    const result = resultWords.join(" ")
-    const method =
-      methodsUsed.includes("lexicon") && methodsUsed.includes("rule-based")
-        ? "hybrid"
-        : methodsUsed.includes("lexicon")
-          ? "lexicon"
-          : "rule-based"
+    const loanword = this.englishLexicon.get(key)
+    const alternatives = loanword ? [loanword] : []
+    const ruleBased = () => ({ text: transliterateEnglishWord(core), method: "rule-based" as const, alternatives })
 
+    switch (strategy.preferredMethod) {
+      case "lexicon-only":
+        return loanword
+          ? { text: loanword, method: "loanword-lexicon", alternatives }
+          : { text: core, method: "untransliterated", alternatives }
+      // The rules write every letter, so "rule-based-first" never falls back to the loanword list
+      case "rule-based-only":
+      case "rule-based-first":
+        return ruleBased()
+      default:
+        return loanword ? { text: loanword, method: "loanword-lexicon", alternatives } : ruleBased()
+    }
+  }
+
+  private emptyResult(text: string): TransliterationResult {
     return {
       originalText: text,
-      transliteratedText: result,
-      method: method as "lexicon" | "rule-based" | "hybrid",
-      completeness: this.checkCompleteness(text, result, "en-to-ur"),
+      transliteratedText: "",
+      method: "rule-based",
+      tokens: [],
+      confidence: 1,
+      completeness: { isComplete: true, untransliteratedParts: [], totalWords: 0, untransliteratedCount: 0 },
+    }
+  }
+
+  /**
+   * Language of each Roman word key; null for keys that are not words (bare punctuation, numbers).
+   */
+  private identifyLanguages(
+    keys: string[],
+    fuzzy?: (word: string) => FuzzyMatch | null,
+  ): (IdentifiedLanguage | null)[] {
+    const isWord = (key: string) => !!key && !isNumber(key)
+    const identified = identifyWordLanguages(keys.filter(isWord), {
+      isLoanword: (key) => this.englishLexicon.has(key),
+      inRomanLexicon: (key) => this.reverseLexicon.has(key) || !!fuzzy?.(key),
+      // Neither model has anything to go on before the lexicon loads
+      englishAdvantage: (key) =>
+        this.englishSpelling.size === 0
+          ? 0
+          : this.englishSpelling.bitsPerCharacter(key) - this.romanSpelling.bitsPerCharacter(key),
+    })
+
+    let next = 0
+    return keys.map((key) => (isWord(key) ? identified[next++] : null))
+  }
+
+  /**
+   * Whether an English word gets its own treatment. Roman Urdu words, words in the user dictionary and
+   * English words without an Urdu spelling under the "transliterate" policy go through the usual lookup.
+   */
+  private appliesEnglishPolicy(
+    key: string,
+    language: IdentifiedLanguage | null,
+    strategy: TransliterationStrategy,
+  ): boolean {
+    if (language?.language !== "english" || this.reverseLexicon.get(key)?.[0]?.user) return false
+    return strategy.englishWords !== "transliterate" || (this.usesLexicon(strategy) && this.englishLexicon.has(key))
+  }
+
+  private englishToken(
+    word: { text: string; start: number; end: number; core: string; key: string },
+    language: IdentifiedLanguage,
+    urduLeading: string,
+    urduPunct: string,
+    strategy: TransliterationStrategy,
+  ): DraftToken {
+    const base = { source: { start: word.start, end: word.end }, sourceText: word.text, normalized: word.key }
+
+    if (strategy.englishWords === "transliterate") {
+      const loanword = urduLeading + this.englishLexicon.get(word.key)! + urduPunct
+      return {
+        ...base,
+        outputText: loanword,
+        method: "loanword-lexicon",
+        alternatives: [loanword],
+        language: { ...language, action: "loanword" },
+      }
+    }
+
+    const core = strategy.englishWords === "mark" ? ENGLISH_MARKERS.open + word.core + ENGLISH_MARKERS.close : word.core
+    return {
+      ...base,
+      outputText: urduLeading + core + urduPunct,
+      method: "english",
+      alternatives: [],
+      language: { ...language, action: strategy.englishWords === "mark" ? "marked" : "kept" },
+    }
+  }
+}
+
+/**
+ * Joins token outputs and assigns each token its span in the joined text. With the source text, the whitespace
+ * around and between source words (line breaks included) is kept; otherwise tokens are joined with single spaces.
+ */
+export function joinTokens(
+  tokens: Omit<TransliterationToken, "output">[],
+  sourceText?: string,
+): {
+  text: string
+  tokens: TransliterationToken[]
+} {
+  const whitespaceBetween = (from: number, to: number) => sourceText!.slice(from, to).replace(/\S+/g, "")
+
+  let text = ""
+  const joined = tokens.map((token, index) => {
+    if (sourceText === undefined) {
+      if (index > 0) text += " "
+    } else {
+      const gap = whitespaceBetween(index > 0 ? tokens[index - 1].source.end : 0, token.source.start)
+      text += index > 0 && !gap ? " " : gap
     }
+
+    const output = { start: text.length, end: text.length + token.outputText.length }
+    text += token.outputText
+    return { ...token, output }
+  })
+
+  if (sourceText !== undefined) {
+    text += whitespaceBetween(tokens.length > 0 ? tokens[tokens.length - 1].source.end : 0, sourceText.length)
+  }
+
+  return { text, tokens: joined }
+}
+
+/**
+ * Replaces one token's output with another spelling (usually one of its alternatives).
+ */
+export function selectTokenOutput(
+  result: TransliterationResult,
+  tokenIndex: number,
+  outputText: string,
+): TransliterationResult {
+  const rebuilt = joinTokens(
+    result.tokens.map((token, index) => (index === tokenIndex ? { ...token, outputText } : token)),
+    result.originalText,
+  )
+
+  return {
+    ...result,
+    transliteratedText: rebuilt.text,
+    tokens: rebuilt.tokens,
+  }
+}
+
+/**
+ * Rewrites every token's output (and its alternatives) and rebuilds transliteratedText so output spans stay accurate.
+ */
+export function mapTokenOutputs(
+  result: TransliterationResult,
+  transform: (outputText: string, token: TransliterationToken) => string,
+): TransliterationResult {
+  const rebuilt = joinTokens(
+    result.tokens.map((token) => ({
+      ...token,
+      outputText: transform(token.outputText, token),
+      alternatives: token.alternatives.map((alternative) => transform(alternative, token)),
+    })),
+    result.originalText,
+  )
+
+  return {
+    ...result,
+    transliteratedText: rebuilt.text,
+    tokens: rebuilt.tokens,
+  }
+}
+
+/**
+ * Joins the results of consecutive slices of one text, shifting token spans so they index into the joined
+ * original and transliterated texts.
+ */
+export function concatResults(parts: TransliterationResult[]): TransliterationResult {
+  let sourceOffset = 0
+  let outputOffset = 0
+
+  const tokens = parts.flatMap((part) => {
+    const shifted = part.tokens.map((token) => ({
+      ...token,
+      source: { start: token.source.start + sourceOffset, end: token.source.end + sourceOffset },
+      output: { start: token.output.start + outputOffset, end: token.output.end + outputOffset },
+    }))
+    sourceOffset += part.originalText.length
+    outputOffset += part.transliteratedText.length
+    return shifted
+  })
+
+  const methods = new Set(parts.filter((part) => part.tokens.length > 0).map((part) => part.method))
+  const originalText = parts.map((part) => part.originalText).join("")
+
+  return {
+    originalText,
+    transliteratedText: parts.map((part) => part.transliteratedText).join(""),
+    method:
+      methods.size === 1 ? Array.from(methods)[0] : methods.size > 1 ? "hybrid" : (parts[0]?.method ?? "rule-based"),
+    tokens,
+    confidence: documentConfidence(tokens),
+    completeness: {
+      isComplete: parts.every((part) => part.completeness.isComplete),
+      untransliteratedParts: parts.flatMap((part) => part.completeness.untransliteratedParts),
+      // Counted over the joined text, as a slice boundary would otherwise count as a word
+      totalWords: originalText.split(/\s+/).length,
+      untransliteratedCount: parts.reduce((sum, part) => sum + part.completeness.untransliteratedCount, 0),
+    },
   }
 }
 
 // Export singleton instance
 export const transliterationEngine = new TransliterationEngine()
+
+/**
+ * Encodes Urdu text with a reversible scheme and decodes it again, throwing when the decoded text differs from
+ * the input. Returns the Roman encoding.
+ */
+export async function roundTrip(
+  text: string,
+  scheme: RomanizationScheme = ROMANIZATION_SCHEMES.ascii,
+): Promise<string> {
+  if (!scheme.reversible) {
+    throw new Error(`${scheme.name} is not a reversible scheme`)
+  }
+
+  const strategy = { ...DEFAULT_STRATEGY, scheme }
+  const roman = await transliterationEngine.transliterateUrduToRoman(text, strategy)
+  const urdu = await transliterationEngine.transliterateRomanToUrdu(roman.transliteratedText, strategy)
+
+  if (urdu.transliteratedText !== text) {
+    const offset = Array.from(text).findIndex((char, i) => Array.from(urdu.transliteratedText)[i] !== char)
+    throw new Error(`Round trip changed the text at character ${offset < 0 ? text.length : offset}`)
+  }
+
+  return roman.transliteratedText
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import { createContext, useContext, useState, useEffect, useRef, type ReactNode } from "react"
+import { transliterationEngine } from "@/lib/transliteration"
+import { transliterationClient } from "@/lib/transliteration-client"
+import {
+  type UserDictionaryEntry,
+  type UserDictionaryFormat,
+  loadUserDictionary,
+  saveUserDictionaryEntries,
+  deleteUserDictionaryEntry,
+  mergeUserDictionary,
+  exportUserDictionary,
+  parseUserDictionary,
+} from "@/lib/user-dictionary"
+
+interface UserDictionaryContextType {
+  entries: UserDictionaryEntry[]
+  loaded: boolean
+  // Adds the entry, or replaces the one with the same id
+  saveEntry: (entry: UserDictionaryEntry) => Promise<void>
+  deleteEntry: (id: string) => Promise<void>
+  // Returns how many entries the file contained
+  importEntries: (text: string, format: UserDictionaryFormat) => Promise<number>
+  exportEntries: (format: UserDictionaryFormat) => string
+}
+
+const UserDictionaryContext = createContext<UserDictionaryContextType | undefined>(undefined)
+
+interface UserDictionaryProviderProps {
+  children: ReactNode
+}
+
+export function UserDictionaryProvider({ children }: UserDictionaryProviderProps) {
+  const [entries, setEntries] = useState<UserDictionaryEntry[]>([])
+  const [loaded, setLoaded] = useState(false)
+  // The latest entries, which each change builds on; `entries` may be stale when saves overlap
+  const latestEntries = useRef<UserDictionaryEntry[]>([])
+
+  // The engines are updated before the state, so a translation started right after a change already sees it.
+  // Both are kept current: translations run in the worker, or on this thread where no worker can start.
+  const applyEntries = (next: UserDictionaryEntry[]) => {
+    latestEntries.current = next
+    transliterationEngine.setUserDictionary(next)
+    transliterationClient.setUserDictionary(next)
+    setEntries(next)
+  }
+
+  // Load entries from IndexedDB on mount
+  useEffect(() => {
+    loadUserDictionary()
+      .then(applyEntries)
+      .catch((error) => console.error("Failed to load user dictionary:", error))
+      .finally(() => setLoaded(true))
+  }, [])
+
+  const saveEntry = async (entry: UserDictionaryEntry) => {
+    const updated = { ...entry, updatedAt: Date.now() }
+    await saveUserDictionaryEntries([updated])
+    applyEntries([...latestEntries.current.filter((existing) => existing.id !== entry.id), updated])
+  }
+
+  const deleteEntry = async (id: string) => {
+    await deleteUserDictionaryEntry(id)
+    applyEntries(latestEntries.current.filter((entry) => entry.id !== id))
+  }
+
+  const importEntries = async (text: string, format: UserDictionaryFormat) => {
+    const imported = parseUserDictionary(text, format)
+    await saveUserDictionaryEntries(mergeUserDictionary(latestEntries.current, imported))
+    // Merged again with whatever changed while the entries were being written
+    applyEntries(mergeUserDictionary(latestEntries.current, imported))
+    return imported.length
+  }
+
+  const exportEntries = (format: UserDictionaryFormat) => exportUserDictionary(entries, format)
+
+  return (
+    <UserDictionaryContext.Provider value={{ entries, loaded, saveEntry, deleteEntry, importEntries, exportEntries }}>
+      {children}
+    </UserDictionaryContext.Provider>
+  )
+}
+
+export function useUserDictionary() {
+  const context = useContext(UserDictionaryContext)
+  if (context === undefined) {
+    throw new Error("useUserDictionary must be used within a UserDictionaryProvider")
+  }
+  return context
+}
@@ -0,0 +1,223 @@
+// User dictionary: entries layered over the bundled lexicon, persisted in IndexedDB
+
+export interface UserDictionaryEntry {
+  id: string
+  urdu: string
+  roman: string
+  // Which lookups the entry applies to
+  urduToRoman: boolean
+  romanToUrdu: boolean
+  // Free-form note, e.g. "person", "place" or "brand"
+  note?: string
+  updatedAt: number
+}
+
+export type UserDictionaryFormat = "json" | "csv"
+
+const DATABASE_NAME = "transliteration-user-dictionary"
+const DATABASE_VERSION = 1
+const STORE_NAME = "entries"
+
+const CSV_COLUMNS = ["urdu", "roman", "urdu_to_roman", "roman_to_urdu", "note"]
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this environment"))
+      return
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Runs one transaction against the entry store and resolves once it has committed.
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const database = await openDatabase()
+
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode)
+      const request = run(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request ? request.result : undefined)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    database.close()
+  }
+}
+
+export async function loadUserDictionary(): Promise<UserDictionaryEntry[]> {
+  const entries = await withStore<UserDictionaryEntry[]>("readonly", (store) => store.getAll())
+  return (entries ?? []).sort((a, b) => a.roman.localeCompare(b.roman))
+}
+
+export async function saveUserDictionaryEntries(entries: UserDictionaryEntry[]): Promise<void> {
+  await withStore("readwrite", (store) => entries.forEach((entry) => store.put(entry)))
+}
+
+export async function deleteUserDictionaryEntry(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id))
+}
+
+export function createUserDictionaryEntry(fields: Omit<UserDictionaryEntry, "id" | "updatedAt">): UserDictionaryEntry {
+  return {
+    ...fields,
+    id: `user-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    urdu: fields.urdu.trim(),
+    roman: fields.roman.trim(),
+    note: fields.note?.trim() || undefined,
+    updatedAt: Date.now(),
+  }
+}
+
+/**
+ * Adds imported entries to the dictionary. An entry with the same Urdu and Roman text as an existing one
+ * replaces it in place.
+ */
+export function mergeUserDictionary(
+  existing: UserDictionaryEntry[],
+  imported: UserDictionaryEntry[],
+): UserDictionaryEntry[] {
+  const pairKey = (entry: UserDictionaryEntry) => `${entry.urdu}\u0000${entry.roman.toLowerCase()}`
+  const merged = new Map(existing.map((entry) => [pairKey(entry), entry]))
+
+  imported.forEach((entry) => {
+    const current = merged.get(pairKey(entry))
+    merged.set(pairKey(entry), current ? { ...entry, id: current.id } : entry)
+  })
+
+  return Array.from(merged.values())
+}
+
+export function exportUserDictionary(entries: UserDictionaryEntry[], format: UserDictionaryFormat): string {
+  if (format === "json") {
+    return JSON.stringify(
+      entries.map(({ urdu, roman, urduToRoman, romanToUrdu, note }) => ({
+        urdu,
+        roman,
+        urduToRoman,
+        romanToUrdu,
+        note,
+      })),
+      null,
+      2,
+    )
+  }
+
+  const rows = entries.map((entry) =>
+    [entry.urdu, entry.roman, String(entry.urduToRoman), String(entry.romanToUrdu), entry.note ?? ""]
+      .map(toCsvField)
+      .join(","),
+  )
+  return [CSV_COLUMNS.join(","), ...rows].join("\n")
+}
+
+/**
+ * Reads entries from an exported file. JSON may also use the bundled lexicon's urdu_script/roman_urdu fields.
+ * Direction flags default to both directions. Throws with the offending entry's position when a row is invalid.
+ */
+export function parseUserDictionary(text: string, format: UserDictionaryFormat): UserDictionaryEntry[] {
+  const records = format === "json" ? parseJsonRecords(text) : parseCsvRecords(text)
+
+  return records.map((record, index) => {
+    const urdu = String(record.urdu ?? record.urdu_script ?? "").trim()
+    const roman = String(record.roman ?? record.roman_urdu ?? "").trim()
+    if (!urdu || !roman) {
+      throw new Error(`Entry ${index + 1} needs both Urdu and Roman text`)
+    }
+
+    const urduToRoman = readFlag(record.urduToRoman ?? record.urdu_to_roman)
+    const romanToUrdu = readFlag(record.romanToUrdu ?? record.roman_to_urdu)
+    if (!urduToRoman && !romanToUrdu) {
+      throw new Error(`Entry ${index + 1} (${roman}) applies to neither direction`)
+    }
+
+    return createUserDictionaryEntry({ urdu, roman, urduToRoman, romanToUrdu, note: String(record.note ?? "") })
+  })
+}
+
+function parseJsonRecords(text: string): Record<string, unknown>[] {
+  const data = JSON.parse(text)
+  if (!Array.isArray(data)) {
+    throw new Error("Dictionary JSON must be an array of entries")
+  }
+  return data
+}
+
+function parseCsvRecords(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = readCsvRows(text).filter((row) => row.some((field) => field.trim()))
+  if (!header) return []
+
+  const columns = header.map((column) => column.trim().toLowerCase())
+  if (!columns.includes("urdu") || !columns.includes("roman")) {
+    throw new Error(`Dictionary CSV needs a header row with at least the columns urdu,roman`)
+  }
+
+  return rows.map((row) => Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ""])))
+}
+
+/**
+ * Splits CSV text into rows of fields. Quoted fields may contain commas, line breaks and "" escapes.
+ */
+function readCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  row.push(field)
+  rows.push(row)
+  return rows
+}
+
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function readFlag(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return true
+  if (typeof value === "boolean") return value
+  return !/^(false|no|0|n)$/i.test(String(value).trim())
+}
@@ -0,0 +1,240 @@
+// Short-vowel inference for unvowelled Urdu, learned from lexicon pairs at load time.
+//
+// Each lexicon entry is aligned letter by letter against its Roman spelling: every Urdu unit
+// (a letter, or a consonant + do-chashmi heh) emits a "core" plus an optional short vowel that
+// the script leaves unwritten. Counts of those emissions are kept per letter context and used
+// to pick vowels for words that are missing from the lexicon.
+
+// Letters whose Roman value depends on context (vowel carriers, ain, hamza, final heh, ghunna)
+const FLEXIBLE_CORES: Record<string, string[]> = {
+  ا: ["a", "aa", "i", "u", "e", "o", ""],
+  آ: ["aa", "a"],
+  أ: ["a", "u"],
+  إ: ["i", "e"],
+  و: ["w", "v", "o", "oo", "u", "au", "ow", "ou", "aw", ""],
+  ی: ["y", "i", "ee", "ai", "e", "ay", "ei", "ey", "ya", ""],
+  ے: ["e", "ay", "ai", "ey", "a", "ae", "ye"],
+  ہ: ["h", "a", "ah", "e", "eh", ""],
+  ع: ["", "'", "a", "aa", "i", "u", "e", "o"],
+  ء: ["", "'"],
+  ئ: ["", "'", "i", "y", "e"],
+  ں: ["n", ""],
+}
+
+const CONSONANT_CORES: Record<string, string[]> = {
+  ب: ["b"],
+  پ: ["p"],
+  ت: ["t"],
+  ٹ: ["t"],
+  ث: ["s", "th"],
+  ج: ["j"],
+  چ: ["ch"],
+  ح: ["h", ""],
+  خ: ["kh"],
+  د: ["d"],
+  ڈ: ["d"],
+  ذ: ["z"],
+  ر: ["r"],
+  ڑ: ["r", "rh", "d"],
+  ز: ["z"],
+  ژ: ["zh"],
+  س: ["s"],
+  ش: ["sh"],
+  ص: ["s"],
+  ض: ["z", "d"],
+  ط: ["t"],
+  ظ: ["z"],
+  غ: ["gh"],
+  ف: ["f"],
+  ق: ["q", "k"],
+  ک: ["k", "c"],
+  گ: ["g"],
+  ل: ["l"],
+  م: ["m"],
+  ن: ["n"],
+  ھ: ["h"],
+}
+
+const SHORT_VOWELS = ["", "a", "i", "u", "e", "o"]
+
+// Minimum observations before a context is trusted over its backoff. The widest window spans a whole
+// short word, so a single sighting of it is enough.
+const MIN_CONTEXT_COUNT = 2
+const MIN_WIDEST_CONTEXT_COUNT = 1
+
+export interface Emission {
+  core: string
+  vowel: string
+}
+
+/**
+ * Splits a word into units, keeping consonant + do-chashmi heh (aspiration) together.
+ */
+export function toUrduUnits(word: string): string[] {
+  const chars = Array.from(word)
+  const units: string[] = []
+
+  for (let i = 0; i < chars.length; i++) {
+    if (i + 1 < chars.length && chars[i + 1] === "ھ" && CONSONANT_CORES[chars[i]] && chars[i] !== "ھ") {
+      units.push(chars[i] + "ھ")
+      i++
+    } else {
+      units.push(chars[i])
+    }
+  }
+
+  return units
+}
+
+export function isFlexibleUnit(unit: string): boolean {
+  return unit in FLEXIBLE_CORES
+}
+
+function coresFor(unit: string): string[] | null {
+  if (unit.length === 2 && unit[1] === "ھ") {
+    const base = CONSONANT_CORES[unit[0]]
+    return base ? base.flatMap((core) => [core + "h", core]) : null
+  }
+  if (FLEXIBLE_CORES[unit]) return FLEXIBLE_CORES[unit]
+
+  const cores = CONSONANT_CORES[unit]
+  if (!cores) return null
+
+  // Allow geminated consonants, which unvowelled script writes once (e.g. amma)
+  return [...cores, ...cores.filter((core) => core.length === 1).map((core) => core + core)]
+}
+
+/**
+ * Minimum-cost segmentation of `roman` into one core + short vowel per unit.
+ * Inserted vowels and silent letters cost extra so letter-backed vowels are preferred.
+ */
+export function alignUnits(units: string[], roman: string): Emission[] | null {
+  const n = units.length
+  const m = roman.length
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(Infinity))
+  const back: ({ j: number; emission: Emission } | null)[][] = Array.from({ length: n + 1 }, () =>
+    new Array(m + 1).fill(null),
+  )
+  cost[0][0] = 0
+
+  for (let i = 0; i < n; i++) {
+    const cores = coresFor(units[i])
+    if (!cores) return null
+
+    for (let j = 0; j <= m; j++) {
+      if (cost[i][j] === Infinity) continue
+
+      for (const core of cores) {
+        if (!roman.startsWith(core, j)) continue
+
+        for (const vowel of SHORT_VOWELS) {
+          const end = j + core.length + vowel.length
+          if (end > m || !roman.startsWith(vowel, j + core.length)) continue
+
+          const stepCost = cost[i][j] + (vowel ? 1 : 0) + (core ? 0 : 0.5)
+          // On a tie the earlier letters keep the longer reading: bhaai is ا "aa" + ی "i", not ا "a" + ی "ai"
+          const tied = stepCost === cost[i + 1][end] && j > back[i + 1][end]!.j
+          if (stepCost < cost[i + 1][end] || tied) {
+            cost[i + 1][end] = stepCost
+            back[i + 1][end] = { j, emission: { core, vowel } }
+          }
+        }
+      }
+    }
+  }
+
+  if (cost[n][m] === Infinity) return null
+
+  const emissions: Emission[] = []
+  for (let i = n, j = m; i > 0; i--) {
+    const step = back[i][j]!
+    emissions.unshift(step.emission)
+    j = step.j
+  }
+
+  return emissions
+}
+
+export class VowelModel {
+  private counts: Map<string, Map<string, number>> = new Map()
+  private trainedEntries = 0
+
+  get size(): number {
+    return this.trainedEntries
+  }
+
+  clear() {
+    this.counts.clear()
+    this.trainedEntries = 0
+  }
+
+  /**
+   * Aligns one single-word lexicon pair and records its emissions. Returns false when the pair cannot be aligned.
+   */
+  train(urdu: string, roman: string): boolean {
+    if (/\s/.test(urdu) || !/^[a-z]+$/.test(roman)) return false
+
+    const units = toUrduUnits(urdu)
+    const emissions = alignUnits(units, roman)
+    if (!emissions) return false
+
+    units.forEach((unit, i) => {
+      const emission = emissions[i]
+      // Consonants always render through the active mapping, so only their vowel is worth learning
+      const value = `${isFlexibleUnit(unit) ? emission.core : "*"}|${emission.vowel}`
+      for (const key of this.contextKeys(units, i)) {
+        const bucket = this.counts.get(key) ?? new Map<string, number>()
+        bucket.set(value, (bucket.get(value) ?? 0) + 1)
+        this.counts.set(key, bucket)
+      }
+    })
+
+    this.trainedEntries++
+    return true
+  }
+
+  /**
+   * Best learned emission for unit `i`, backing off from two letters either side to the unit alone.
+   * Returns null when the unit was never observed.
+   */
+  predict(units: string[], i: number): Emission | null {
+    const keys = this.contextKeys(units, i)
+
+    for (let level = 0; level < keys.length; level++) {
+      const bucket = this.counts.get(keys[level])
+      if (!bucket) continue
+
+      let total = 0
+      let best: [string, number] | null = null
+      for (const entry of bucket) {
+        total += entry[1]
+        if (!best || entry[1] > best[1]) best = entry
+      }
+
+      const isLastLevel = level === keys.length - 1
+      const minCount = level === 0 ? MIN_WIDEST_CONTEXT_COUNT : MIN_CONTEXT_COUNT
+      if (best && (total >= minCount || isLastLevel)) {
+        const [core, vowel] = best[0].split("|")
+        return { core, vowel }
+      }
+    }
+
+    return null
+  }
+
+  private contextKeys(units: string[], i: number): string[] {
+    const prev = i > 0 ? units[i - 1] : "^"
+    const next = i + 1 < units.length ? units[i + 1] : "$"
+    const before = i > 1 ? units[i - 2] : "^"
+    const after = i + 2 < units.length ? units[i + 2] : "$"
+    const unit = units[i]
+    return [
+      `5|${before}|${prev}|${unit}|${next}|${after}`,
+      `4|${prev}|${unit}|${next}|${after}`,
+      `4b|${before}|${prev}|${unit}|${next}`,
+      `3|${prev}|${unit}|${next}`,
+      `2|${unit}|${next}`,
+      `1|${unit}`,
+    ]
+  }
+}
@@ -0,0 +1,59 @@
+// Messages between TransliterationClient and the transliteration worker
+//
+// Every request that expects an answer carries an id, and the worker answers it with exactly one of
+// "loaded", "lexicon-entries", "result", "batch-result", "file-result", "error" or "cancelled", possibly after some "progress"
+// (and, for files, "file-chunk") messages.
+
+import type { LexiconLoadStatus, PackLexiconEntry, TransliterationResult } from "@/lib/transliteration"
+import type { TransliterationDirection } from "@/lib/transliteration-pipeline"
+import type { TransliterationStreamStats } from "@/lib/transliteration-stream"
+import type { UserDictionaryEntry } from "@/lib/user-dictionary"
+import type { UnmappedCharacter } from "@/lib/strict-mode"
+import type { TranslationOptions } from "@/components/translation-settings"
+
+export type WorkerRequest =
+  | { type: "load"; id: number; packIds: string[] }
+  | { type: "lexicon-entries"; id: number; packIds: string[]; retry: boolean }
+  | { type: "set-user-dictionary"; entries: UserDictionaryEntry[] }
+  | {
+      type: "transliterate"
+      id: number
+      text: string
+      direction: TransliterationDirection
+      options: TranslationOptions
+    }
+  | {
+      type: "batch"
+      id: number
+      texts: string[]
+      direction: TransliterationDirection
+      options: TranslationOptions
+    }
+  | {
+      // Plain text, read and transliterated in the worker as a stream
+      type: "transliterate-file"
+      id: number
+      file: Blob
+      direction: TransliterationDirection
+      options: TranslationOptions
+    }
+  | { type: "cancel"; id: number }
+
+// Errors lose their class crossing the worker boundary, so the client rebuilds them from the name
+export interface SerializedError {
+  name: string
+  message: string
+  // Set for StrictModeError
+  unmapped?: UnmappedCharacter[]
+}
+
+export type WorkerResponse =
+  | { type: "progress"; id: number; progress: number }
+  | { type: "loaded"; id: number; status: LexiconLoadStatus }
+  | { type: "lexicon-entries"; id: number; entries: PackLexiconEntry[] }
+  | { type: "result"; id: number; result: TransliterationResult }
+  | { type: "batch-result"; id: number; results: TransliterationResult[] }
+  | { type: "file-chunk"; id: number; text: string; stats: TransliterationStreamStats }
+  | { type: "file-result"; id: number; stats: TransliterationStreamStats }
+  | { type: "error"; id: number; error: SerializedError }
+  | { type: "cancelled"; id: number }
@@ -0,0 +1,42 @@
+// Generates the packed form of every lexicon pack in public/lexicons/manifest.json (see lib/lexicon-format.ts)
+// and records each file's path and content hash in public/lexicons/packed.json, which clients use as their
+// cache key. Both are build output and not checked in; without them clients load the JSON packs.
+//
+//   node scripts/build-lexicon-packs.mjs
+
+import { createHash } from "node:crypto"
+import { readFileSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+
+const PUBLIC_DIR = join(process.cwd(), "public")
+const MANIFEST_PATH = join(PUBLIC_DIR, "lexicons", "manifest.json")
+const PACKED_INDEX_PATH = join(PUBLIC_DIR, "lexicons", "packed.json")
+const HEADER = "#lexicon-pack 1"
+
+const field = (value) =>
+  String(value ?? "")
+    .trim()
+    .replace(/\s+/g, " ")
+
+const manifest = JSON.parse(readFileSync(MANIFEST_PATH, "utf8"))
+
+const packs = {}
+
+manifest.packs.forEach((pack) => {
+  const entries = JSON.parse(readFileSync(join(PUBLIC_DIR, pack.path), "utf8"))
+  const lines = entries.map((entry) => {
+    const columns = [field(entry.urdu_script), field(entry.roman_urdu)]
+    if (entry.weight !== undefined) columns.push(String(entry.weight))
+    return columns.join("\t")
+  })
+
+  const packed = [HEADER, ...lines].join("\n") + "\n"
+  const packedPath = `/lexicons/${pack.id}.lex`
+  writeFileSync(join(PUBLIC_DIR, packedPath), packed)
+
+  const hash = createHash("sha256").update(packed).digest("hex").slice(0, 16)
+  console.log(`${pack.id}: ${entries.length} entries, ${Buffer.byteLength(packed)} bytes, ${hash}`)
+  packs[pack.id] = { packed: packedPath, hash }
+})
+
+writeFileSync(PACKED_INDEX_PATH, JSON.stringify({ packs }, null, 2) + "\n")